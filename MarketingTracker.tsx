@@ -1,82 +1,81 @@
 "use client";
-import React, { useMemo, useState, useEffect } from "react";
-import { format, addDays, startOfWeek, endOfWeek, isWithinInterval, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, parse, parseISO, getISOWeek, getYear, getMonth, isSameDay } from "date-fns";
-import Papa from "papaparse";
-import { CalendarDays, Mail, MessageSquare, Voicemail, Upload, AlertTriangle, CheckCircle2, Filter } from "lucide-react";
+import React, { useMemo, useState, useEffect, useRef } from "react";
+import { format, formatDistanceToNow, addDays, startOfWeek, endOfWeek, isWithinInterval, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, getYear, getMonth, isSameDay, differenceInCalendarDays } from "date-fns";
+import { CalendarDays, Mail, MessageSquare, Voicemail, Upload, AlertTriangle, CheckCircle2, Filter, RefreshCw, ClipboardList, StickyNote, User, Settings, WifiOff } from "lucide-react";
 // Replace alias imports with relative paths to ensure proper module resolution on Vercel
 import { Card, CardContent, CardHeader, CardTitle } from "./card";
 import { Button } from "./button";
 import { Badge } from "./badge";
 import { Input } from "./input";
 import { Progress } from "./progress";
+import { followUpsFor, describeCadence, type CadenceRule } from "./lib/cadence";
+import { forecastMonth, targetsForCategory, targetForMonth, targetStatus, type TargetConfig } from "./lib/targets";
+import { EMPTY_FILTER, isFilterActive, rowMatchesFilter, taskMatchesChannels, filterOptions, type RowFilter, type FilterChannel } from "./lib/filters";
+import { DEFAULT_VIEW_STATE, viewStateFromQuery, viewStateToQuery, monthParam, onlySearchChanged, CALENDAR_VIEWS, type Section, type OptionalColumn, type CalendarView } from "./lib/viewState";
+import { normalizeResults, joinResults, responseByCampaign, responseByStage } from "./lib/results";
+import { spendByMonth, spendByCategory, costPerPiece, monthBudget, type BudgetConfig } from "./lib/spend";
+import { toCsvUrl, sheetProxyUrl } from "./lib/sheet";
+import { normalizeRows, tryParseDate, parseCurrency, importIssueCount, REQUIRED_COLUMNS } from "./lib/import";
+import { resolveColumns, CANONICAL_COLUMNS } from "./lib/columns";
+import { sourceProfileKey, type SheetSource } from "./lib/sources";
+import { readCachedSheet, saveCachedSheet } from "./lib/offlineCache";
+import { reconcileCompletions, describeTaskKey } from "./lib/identity";
+import { parseSheetCsv, normalizeSource, mergeSchedule, buildTasks, stageForBatch, campaignPartName, cadenceGroupKey } from "./lib/schedule";
+import { exportBlob, exportFileName, type ExportFormat } from "./lib/export";
+import { DRAFT_SOURCE, draftDropDates, draftRows, draftCounts, monthFits, suggestSplit, splitEvenly, type DraftPlan } from "./lib/planning";
+import { applyDateChanges, latestChanges, proposeMove, monthTotalsForMove, changeSetTable, type DateChange } from "./lib/reschedule";
+import { findConflicts, conflictsByDay, type CapacityLimits } from "./lib/capacity";
+import { overdueTasks, groupOverdue } from "./lib/overdue";
+import { federalHolidays, blockedReason, mailDateIssues, type BlockedDays, type ShiftPolicy } from "./lib/holidays";
+import { BLOCKED_DAYS, CADENCE_RULES, CAPACITY_LIMITS, DEFAULT_WORKSPACES } from "./lib/config";
+import { findWorkspace, workspaceSuffix, type Workspace } from "./lib/workspaces";
+import { filterTasks, feedFilterQuery, tasksToIcs } from "./lib/ics";
+import { STATUS_META, MAIL_STATUSES, FOLLOW_UP_STATUSES, statusesFor, effectiveStatus, isDoneStatus } from "./lib/status";
 
 /**
  * MARKETING SCHEDULE TRACKER (Single-file React app)
  *
  * What it does
- * - Import your Google Sheet CSV and auto-compute follow‑ups (Text + VM at T+13 days)
- * - Top reminders for THIS WEEK and NEXT WEEK (with completion checkboxes for Text/VM)
- * - Month summary against 9k–10k target (green = in range)
- * - Weekly mail count table per month
+ * - Import your Google Sheet CSV and auto-compute follow‑ups from cadence rules (default Text + VM at T+13 days)
+ * - Top reminders for THIS WEEK and NEXT WEEK with lifecycle statuses (mail: list pulled → delivered; Text/VM: scheduled,
+ *   sent, skipped, failed), shared through /api/completions and shown as badges in the calendar and tables
+ * - Overdue panel: past Text/VM follow-ups not sent or skipped, grouped by age, with bulk Mark sent / Skip
+ * - Month summary against per-month / per-category targets (default 9k–10k) with a month-end forecast
+ * - Spend panel: by month / Category, cost per piece, monthly budget burn-down and over-budget warnings
+ * - Results panel: Calls/Leads/Contracts/Revenue (sheet columns or a results import) with response rate, cost per lead
+ *   and ROI per campaign and per batch stage
+ * - Weekly mail count table per month; schedule, weekly counts and cadence matrix export to CSV/XLSX as shown
  * - Calendar view with icons (✉️ 💬 🎙️) and Part/Batch badges
+ * - .ics download of the tasks and a subscribable feed at /api/calendar (filter by channel and Category)
  * - "No‑Mail" campaigns supported via a Channels/Tags column or inline toggle
+ * - Named workspaces (sheet sources, targets, drop weekday) edited on /settings, with a switcher in the header
+ * - Installable (PWA); the last good copy of each sheet is cached in IndexedDB and shown with a "stale since" banner
+ *   when a refresh fails — the sample rows only appear when no sheet is set up
+ * - Several sheet tabs / sheets merged into one schedule, each with its own load status
+ * - Filter bar (Category, County, campaign, channel, free text) applied to every view, month target included
  *
- * CSV Schema (flexible, case-insensitive match):
+ * CSV Schema (case/whitespace-insensitive, with aliases such as "Qty" for Count — see lib/columns.ts;
+ * unresolved required columns open a mapping dialog, saved per source):
  * REQUIRED: Date, Campaign, Count
- * OPTIONAL: Month and Year, Week, Category, Part, Batch, Cost, Red - Adjusted Dates,
+ * OPTIONAL: ID (keeps task statuses attached when campaign/part/batch change),
+ *           Month and Year, Week, Category, Part, Batch, Cost, Red - Adjusted Dates,
+ *           Calls, Leads, Contracts, Revenue,
  *           Channels (e.g. "Mail,Text,Voicemail" or "Text,Voicemail"),
  *           Tags (include "No Mail" or "NoMail" to mark text/VM-only campaigns)
  * Date formats accepted: yyyy-MM-dd, MMM d, yyyy, M/d/yyyy, M/d/yy
+ * Rows that can't be used, and values that had to be coerced, are listed in the Import report panel.
  */
 
 // -------------------- Utilities --------------------
-const currency = (n) => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n || 0);
-
-const ordinal = (n) => {
-  const s = ["th","st","nd","rd"], v = n % 100;
-  return n + (s[(v-20)%10] || s[v] || s[0]);
-};
-
-const inferBatchNum = (part, batch) => {
-  // Extract the first numeric portion from part/batch text (e.g., "Batch 3" => 3)
-  const pick = String(part || "") + " " + String(batch || "");
-  let digits = "";
-  for (const ch of pick) { if (ch >= '0' && ch <= '9') digits += ch; }
-  const num = parseInt(digits, 10);
-  return Number.isFinite(num) ? num : null;
-};
-
-const stageForBatch = (n) => {
-  if (!n || n <= 1) return "Initial";
-  if (n >= 5) return "Final";
-  return ordinal(n) + " Follow-up";
+const downloadBlob = (blob, fileName) => {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(a.href);
 };
 
-const tryParseDate = (value) => {
-  if (!value) return null;
-  if (value instanceof Date) return value;
-  const asStr = String(value).trim();
-  const tryFormats = [
-    "yyyy-MM-dd",
-    "MMM d, yyyy",
-    "MMMM d, yyyy",
-    "M/d/yyyy",
-    "MM/dd/yyyy",
-    "M/d/yy",
-    "MM/dd/yy",
-  ];
-  for (const f of tryFormats) {
-    try {
-      const d = parse(asStr, f, new Date());
-      if (!isNaN(d)) return d;
-    } catch {}
-  }
-  const iso = parseISO(asStr);
-  if (!isNaN(iso)) return iso;
-  const loose = new Date(asStr);
-  if (!isNaN(loose)) return loose;
-  return null;
-};
+const currency = (n) => new Intl.NumberFormat(undefined, { style: "currency", currency: "USD" }).format(n || 0);
 
 // -------------------- Mini runtime checks (dev) --------------------
 if (typeof window !== "undefined" && !window.__MARKETING_TRACKER_TESTED__) {
@@ -86,20 +85,19 @@ if (typeof window !== "undefined" && !window.__MARKETING_TRACKER_TESTED__) {
     console.assert(/2nd/.test(stageForBatch(2)), "stage 2 should be 2nd follow-up");
     console.assert(stageForBatch(5) === "Final", "stage 5 should be Final");
     const mock = "https://docs.google.com/spreadsheets/d/ABCDEF/edit#gid=0";
-    const out = (function toCsvUrlTestOnly(input){
-      try {
-        const url = new URL(input);
-        const idMatch = url.pathname.match(/\/d\/([^/]+)/);
-        const id = idMatch?.[1];
-        const gid = url.searchParams.get("gid");
-        if (id) return `https://docs.google.com/spreadsheets/d/${id}/export?format=csv${gid ? `&gid=${gid}` : ''}`;
-      } catch {}
-      return input;
-    })(mock);
+    const out = toCsvUrl(mock);
     console.assert(/export\?format=csv/.test(out), "should convert to CSV export URL");
+    console.assert(/gid=42/.test(toCsvUrl(mock, "42")), "forced gid replaces the link's tab");
     // Added tests
     console.assert(!!tryParseDate("7/29/2025"), "US short date should parse");
     console.assert(typeof currency(1234) === "string", "currency returns string");
+    console.assert(parseCurrency("$1,234.50") === 1234.5 && parseCurrency("(45)") === -45 && parseCurrency("n/a") === null, "currency cells parse, not zero");
+    console.assert(resolveColumns([" campaign ", "Qty", "DATE"]).missingRequired.length === 0, "header aliases resolve case-insensitively");
+    (function(){
+      const { data, report } = normalizeRows([{ Date: "7/29/2025", Campaign: "DM 1", Count: "2,444" }, { Date: "someday", Campaign: "DM 1", Count: "10" }]);
+      console.assert(data.length === 1 && data[0].count === 2444, "thousands separators are read, not zeroed");
+      console.assert(report.rejected.length === 1 && report.rejected[0].line === 3, "bad date is reported with its sheet row");
+    })();
     // Tag parsing sanity checks
     console.assert(/\bmail\b/i.test('Mail,Text,Voicemail') === true, 'detect mail token');
     console.assert(/\bmail\b/i.test('voicemail') === false, 'do not treat voicemail as mail');
@@ -124,54 +122,34 @@ if (typeof window !== "undefined" && !window.__MARKETING_TRACKER_TESTED__) {
       console.assert(build('DM 1 - A', 'Batch B') === 'DM 1 - B', 'Part overrides campaign suffix');
       console.assert(build('DM 1 - A', '') === 'DM 1 - A', 'keep suffix when Part empty');
     })();
+    // Cadence rules: category match, and text/VM-only rows start on their own date
+    (function(){
+      const d = new Date(2025, 7, 26);
+      const rules: CadenceRule[] = [
+        { name: 'FL', match: { category: ['FL'] }, touches: [{ channel: 'text', offsetDays: 10 }, { channel: 'vm', offsetDays: 14 }] },
+        { name: 'Default', touches: [{ channel: 'text', offsetDays: 13 }, { channel: 'vm', offsetDays: 13 }] },
+      ];
+      const fl = followUpsFor({ mailDate: d, hasMail: true, hasText: true, hasVM: true, category: 'fl' }, rules);
+      console.assert(fl.length === 2 && isSameDay(fl[0].date, addDays(d, 10)) && isSameDay(fl[1].date, addDays(d, 14)), 'FL cadence is text +10, VM +14');
+      const noMail = followUpsFor({ mailDate: d, hasMail: false, hasText: true, hasVM: true, category: 'OK' }, rules);
+      console.assert(noMail.every(f => isSameDay(f.date, d)), 'no-mail follow-ups happen on Date');
+    })();
   } catch {}
 }
 
-// -------------------- Google Sheet helpers --------------------
-const toCsvUrl = (input) => {
-  try {
-    const u = input?.trim();
-    if (!u) return "";
-    const url = new URL(u);
-    if (url.hostname.includes("docs.google.com") && url.pathname.includes("/spreadsheets/")) {
-      // Normalize any incoming URL to a CSV export URL
-      if (url.pathname.includes("/export")) {
-        url.searchParams.set("format","csv");
-        // Force gid to the fixed tab if provided
-        if (USE_FIXED_SOURCE && FIXED_SHEET_GID) {
-          url.searchParams.set("gid", FIXED_SHEET_GID);
-        }
-        return url.toString();
-      }
-      if (url.pathname.includes("/pub") && url.searchParams.get("output") === "csv") {
-        // Public CSV already — optionally enforce gid
-        if (USE_FIXED_SOURCE && FIXED_SHEET_GID) {
-          url.searchParams.set("gid", FIXED_SHEET_GID);
-        }
-        return url.toString();
-      }
-      const idMatch = url.pathname.match(/\/d\/([^/]+)/);
-      const id = idMatch?.[1];
-      // Prefer the fixed gid (Marketing tab) if provided, else pass through any found gid
-      const incomingGid = url.searchParams.get("gid");
-      const finalGid = (USE_FIXED_SOURCE && FIXED_SHEET_GID) ? FIXED_SHEET_GID : incomingGid;
-      if (id) {
-        return `https://docs.google.com/spreadsheets/d/${id}/export?format=csv${finalGid ? `&gid=${finalGid}` : ''}`;
-      }
-    }
-  } catch {}
-  return input;
-};
+// Sheet sources, the follow-up cadence and the monthly mail targets live in lib/config.ts (the server routes use them too).
 
-// Fixed Google Sheet source (optional). Set your sheet link below to lock the source.
-// Example: const FIXED_SHEET_URL = "https://docs.google.com/spreadsheets/d/XXX/edit#gid=0";
-const FIXED_SHEET_URL = "https://docs.google.com/spreadsheets/d/1gFBB6_C4ZL3Wv0m4Pw7s9Vt9A7806Cj1r5u7O_cw_bo/edit#gid=0";
-// If your default tab isn't the first sheet, set its gid here (open the "Marketing" tab and copy the gid from the URL)
-const FIXED_SHEET_GID = ""; // e.g. "808371977" for the Marketing tab
-const FIXED_SHEET_TAB_NAME = "Marketing"; // for display only
-const USE_FIXED_SOURCE = Boolean(FIXED_SHEET_URL);
+// Monthly spend budget (sum of the Cost column). null = no budget; per-month overrides keyed by yyyy-MM, e.g.
+// months: { "2025-10": 12000 }. Edits made in the spend panel are saved in this browser.
+const SPEND_BUDGETS: BudgetConfig = {
+  default: null,
+};
+// Key of the optional results import (Calls/Leads/Contracts/Revenue) in the per-source load state
+const RESULTS_ID = "results";
 
 // -------------------- Sample rows (can delete after connecting) --------------------
+const SAMPLE_SOURCE: SheetSource = { id: "sample", label: "Sample data", url: "" };
+const isDraft = (r) => r?.sourceId === DRAFT_SOURCE.id;
 const sampleRows = [
   { Date: "2025-08-26", Campaign: "DM3-B", Category: "FL", Part: "Batch 2", Batch: "B2", Count: 2444, Cost: "", Channels: "Mail,Text,Voicemail" },
   { Date: "2025-09-02", Campaign: "DM3-B", Category: "FL", Part: "Batch 3", Batch: "B3", Count: 2117, Cost: "", Channels: "Mail,Text,Voicemail" },
@@ -184,113 +162,309 @@ const sampleRows = [
 // Component
 // ================================================================
 export default function MarketingTracker() {
-  const [rows, setRows] = useState(sampleRows);
-  const [sheetUrl, setSheetUrl] = useState("");
-  const [showCosts, setShowCosts] = useState(false);
-  const [showCalendar, setShowCalendar] = useState(true);
-  const [showWeeklyTable, setShowWeeklyTable] = useState(true);
-  const [showCampaignTable, setShowCampaignTable] = useState(true);
-  const [showCadenceMatrix, setShowCadenceMatrix] = useState(true);
-  const [hidePast, setHidePast] = useState(true);
-  const [showCounty, setShowCounty] = useState(false);
-  const [hideCompleted, setHideCompleted] = useState(false);
-  const [doneKeys, setDoneKeys] = useState(() => {
-    try { return JSON.parse(localStorage.getItem("taskDoneKeys") || "[]"); } catch { return []; }
+  // View state (month, sections, columns, filters) starts from the URL so links and bookmarks restore it
+  const [initialView] = useState(() => {
+    try { return viewStateFromQuery(window.location.search); } catch { return DEFAULT_VIEW_STATE; }
+  });
+  // Workspaces (sheet sources, targets, drop weekday) come from /api/workspaces and are edited on /settings; the last
+  // list seen is kept in this browser so the page opens on the right sheet before the server answers
+  const [workspaces, setWorkspaces] = useState<Workspace[]>(() => {
+    try { return JSON.parse(localStorage.getItem("workspaces") || "null") || DEFAULT_WORKSPACES; } catch { return DEFAULT_WORKSPACES; }
+  });
+  const [workspaceId, setWorkspaceId] = useState(() => {
+    try { return initialView.workspace || localStorage.getItem("workspace") || ""; } catch { return initialView.workspace; }
+  });
+  const [workspaceError, setWorkspaceError] = useState(null);
+  const workspace = findWorkspace(workspaces, workspaceId) || DEFAULT_WORKSPACES[0];
+  const dropWeekday = workspace.dropWeekday;
+  // Task statuses, calendar moves, drafts, blackout dates and budgets belong to a workspace: they're kept under
+  // localStorage keys with its suffix (the default workspace keeps the keys from before there were workspaces)
+  const savedKey = (name: string, id = workspace.id) => name + workspaceSuffix(id);
+  const readSaved = <T,>(name: string, fallback: T, id = workspace.id): T => {
+    try { return JSON.parse(localStorage.getItem(savedKey(name, id)) || "null") || fallback; } catch { return fallback; }
+  };
+  // The workspace's sheets plus files uploaded in this session, and the last load of each
+  const [fileSources, setFileSources] = useState<SheetSource[]>([]);
+  const sources = useMemo(() => [...workspace.sources, ...fileSources], [workspace, fileSources]);
+  // source id -> { rows, fields, errors, loading, fetchedAt, error }
+  const [loads, setLoads] = useState({});
+  const [showSources, setShowSources] = useState(false);
+  const [newSource, setNewSource] = useState({ label: "", url: "", gid: "", category: "" });
+  const [showImportReport, setShowImportReport] = useState(false);
+  const [columnProfiles, setColumnProfiles] = useState(() => readSaved("columnProfiles", {}));
+  // Source whose column mapping dialog is open
+  const [mappingSourceId, setMappingSourceId] = useState(null);
+  const [showCosts, setShowCosts] = useState(initialView.columns.includes("cost"));
+  const [showCalendar, setShowCalendar] = useState(initialView.sections.includes("calendar"));
+  const [showWeeklyTable, setShowWeeklyTable] = useState(initialView.sections.includes("weekly"));
+  const [showCampaignTable, setShowCampaignTable] = useState(initialView.sections.includes("schedule"));
+  const [showCadenceMatrix, setShowCadenceMatrix] = useState(initialView.sections.includes("cadence"));
+  const [showSpend, setShowSpend] = useState(initialView.sections.includes("spend"));
+  const [showResults, setShowResults] = useState(initialView.sections.includes("results"));
+  const [showCapacity, setShowCapacity] = useState(initialView.sections.includes("capacity"));
+  const [calendarView, setCalendarView] = useState<CalendarView>(initialView.calendarView);
+  const [hidePast, setHidePast] = useState(initialView.hidePast);
+  const [showCounty, setShowCounty] = useState(initialView.columns.includes("county"));
+  const [statusFilter, setStatusFilter] = useState(initialView.status);
+  const [rowFilter, setRowFilter] = useState<RowFilter>(initialView.filter);
+  // Calendar export / feed filter: channels to include (empty = all) and one Category ("" = all)
+  const [calendarFilter, setCalendarFilter] = useState({ channels: [], category: "" });
+  // Task statuses (mail lifecycle, Text/VM outcomes) shared through /api/completions. The local copy keeps the page usable offline; changes made
+  // while the server is unreachable wait in a pending queue (seeded from the old browser-only "taskDoneKeys").
+  const [userName, setUserName] = useState(() => {
+    try { return localStorage.getItem("trackerUser") || ""; } catch { return ""; }
   });
+  const [completions, setCompletions] = useState(() => readSaved("taskCompletions", {}));
+  const [syncStatus, setSyncStatus] = useState({ syncedAt: null, error: null });
+  const syncChain = useRef(Promise.resolve());
+  const recordKeys = useMemo(() => Object.keys(completions), [completions]);
+  const statusOf = (t) => effectiveStatus(completions[t.idKey], t.type);
+  const targets: TargetConfig = workspace.targets;
+  const [editingTargets, setEditingTargets] = useState(false);
+  // Optional second import with Calls/Leads/Contracts/Revenue per campaign/part/batch; loaded into loads[RESULTS_ID]
+  const [resultsSource, setResultsSource] = useState(() => readSaved("resultsSource", null));
+  const [resultsLink, setResultsLink] = useState("");
+  const [budgets, setBudgets] = useState<BudgetConfig>(() => readSaved("spendBudgets", SPEND_BUDGETS));
+  // Blackout dates and the follow-up shift policy added here; BLOCKED_DAYS in lib/config.ts is the shared default
+  const [blockedPrefs, setBlockedPrefs] = useState<{ blackoutDates: string[]; policy: ShiftPolicy }>(() => readSaved("blockedDays", { blackoutDates: [], policy: BLOCKED_DAYS.policy }));
+  const [showBlocked, setShowBlocked] = useState(false);
+  const [planning, setPlanning] = useState(false);
+  const [dateChanges, setDateChanges] = useState<DateChange[]>(() => readSaved("dateChanges", []));
+  const [pendingMove, setPendingMove] = useState<DateChange | null>(null);
+  const [showChangeLog, setShowChangeLog] = useState(false);
+  const [draftPlans, setDraftPlans] = useState<DraftPlan[]>(() => readSaved("draftPlans", []));
+  const [capacityLimits, setCapacityLimits] = useState<CapacityLimits>(() => ({ ...CAPACITY_LIMITS, ...readSaved("capacityLimits", {}) }));
+  const [newBlackout, setNewBlackout] = useState("");
+  const [online, setOnline] = useState(() => typeof navigator === "undefined" || navigator.onLine);
   const today = new Date();
+  // Switching workspaces swaps in that workspace's saved state before anything renders with the old one
+  const [stateWorkspaceId, setStateWorkspaceId] = useState(workspace.id);
+  if (stateWorkspaceId !== workspace.id) {
+    setStateWorkspaceId(workspace.id);
+    setCompletions(readSaved("taskCompletions", {}));
+    setBudgets(readSaved("spendBudgets", SPEND_BUDGETS));
+    setBlockedPrefs(readSaved("blockedDays", { blackoutDates: [], policy: BLOCKED_DAYS.policy }));
+    setDateChanges(readSaved("dateChanges", []));
+    setDraftPlans(readSaved("draftPlans", []));
+    setCapacityLimits({ ...CAPACITY_LIMITS, ...readSaved("capacityLimits", {}) });
+    setColumnProfiles(readSaved("columnProfiles", {}));
+    setResultsSource(readSaved("resultsSource", null));
+    setLoads(prev => { const next = { ...prev }; delete next[RESULTS_ID]; return next; });
+    setPendingMove(null);
+  }
+  // Workspace a completion sync answer belongs to; answers for a workspace no longer shown are dropped
+  const activeWorkspaceId = useRef(workspace.id);
+  useEffect(() => { activeWorkspaceId.current = workspace.id; }, [workspace.id]);
 
-  // Persist & restore the Sheet URL locally so it sticks between reloads (unless fixed source)
+  // Load any source that hasn't been fetched yet, starting from its cached copy
+  useEffect(() => { for (const src of sources) if (src.url && !loads[src.id]) { showCachedSheet(src); fetchSource(src); } }, [sources]);
+  // Installable app: the service worker keeps the page available offline (not in dev, where it would cache stale builds)
   useEffect(() => {
-    if (USE_FIXED_SOURCE) {
-      setSheetUrl(FIXED_SHEET_URL);
-    } else {
-      try {
-        const saved = localStorage.getItem("sheetUrl");
-        if (saved) setSheetUrl(saved);
-      } catch {}
+    if (process.env.NODE_ENV === "production" && "serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch(e => console.error("Service worker registration failed", e));
     }
   }, []);
+  // Back online: retry what failed
   useEffect(() => {
-    if (!USE_FIXED_SOURCE) {
-      try { if (sheetUrl) localStorage.setItem("sheetUrl", sheetUrl); } catch {}
-    }
-  }, [sheetUrl]);
-  useEffect(() => { if (sheetUrl) fetchSheet(); }, [sheetUrl]);
-  useEffect(() => { try { localStorage.setItem("taskDoneKeys", JSON.stringify(doneKeys)); } catch {} }, [doneKeys]);
-
-  // Derive normalized rows with date objects and channel flags
-  const data = useMemo(() => {
-    return (rows || [])
-      .map((r, i) => {
-        const mailDate = tryParseDate(r["Red - Adjusted Dates"] || r.Date);
-        const tagsStr = String(r.Tags || '').toLowerCase();
-        const channelsStr = String(r.Channels || '').toLowerCase();
-        const src = tagsStr + ' ' + channelsStr;
-        const hasNoMailTag = /\bno[-\s]?mail\b/.test(src);
-        const hasMailToken = /\bmail\b/.test(src); // strict token; won't match 'voicemail'
-        const hasTextToken = /\b(text|sms)\b/.test(src);
-        const hasVmToken = /\b(voicemail|voice\s*mail|vm|vmail)\b/.test(src);
-        const anyToken = /\b(mail|text|sms|voicemail|voice\s*mail|vm|vmail)\b/.test(src);
-        const noText = /\bno[-\s]?(text|sms)\b/.test(src);
-        const noVM = /\bno[-\s]?(voicemail|voice\s*mail|vm|vmail)\b/.test(src);
-        let hasMail = hasMailToken && !hasNoMailTag;
-        let hasText = hasTextToken;
-        let hasVM = hasVmToken;
-        if (!anyToken) { hasMail = !hasNoMailTag; hasText = true; hasVM = true; }
-        if (hasMail && !noText) hasText = true;
-        if (hasMail && !noVM) hasVM = true;
-        if (noText) hasText = false;
-        if (noVM) hasVM = false;
-        const part = r.Part || "";
-        const batch = r.Batch || "";
-        const batchNum = inferBatchNum(part, batch);
-        return {
-          id: i,
-          raw: r,
-          mailDate,
-          hasMail,
-          hasText,
-          hasVM,
-          count: Number(r.Count) || 0,
-          campaign: r.Campaign || "(Unnamed)",
-          category: r.Category || "",
-          part,
-          batch,
-          batchNum,
-          cost: Number(r.Cost) || 0,
-        };
-      })
-      .filter((r) => r.mailDate);
-  }, [rows]);
-
-  // Create tasks: mail (if any) at mailDate, then text/vm at +13 days (or same date if no mail)
-  const tasks = useMemo(() => {
-    const items = [];
-    for (const r of data) {
-      const t0 = r.mailDate;
-      const follow = r.hasMail ? addDays(t0, 13) : t0; // text/vm-only campaigns happen on Date
-      const partBatch = [r.part, r.batch].filter(Boolean).join(" • ");
-      const base = { count: r.count, ref: r };
-      if (r.hasMail) {
-        const date = t0; const type = "mail";
-        const idKey = `${type}|${format(date, 'yyyy-MM-dd')}|${r.campaign}|${r.part}|${r.batch}`;
-        items.push({ ...base, type, date, idKey, label: `Mail • ${r.campaign}${partBatch?` • ${partBatch}`:""}` });
-      }
-      if (r.hasText) {
-        const date = follow; const type = "text";
-        const idKey = `${type}|${format(date, 'yyyy-MM-dd')}|${r.campaign}|${r.part}|${r.batch}`;
-        const stage = stageForBatch(r.batchNum);
-        items.push({ ...base, type, date, idKey, stage, label: `Text • ${r.campaign}${partBatch?` • ${partBatch}`:""}` });
-      }
-      if (r.hasVM) {
-        const date = follow; const type = "vm";
-        const idKey = `${type}|${format(date, 'yyyy-MM-dd')}|${r.campaign}|${r.part}|${r.batch}`;
-        const stage = stageForBatch(r.batchNum);
-        items.push({ ...base, type, date, idKey, stage, label: `VM • ${r.campaign}${partBatch?` • ${partBatch}`:""}` });
+    const onOnline = () => { setOnline(true); sources.filter(src => src.url && loads[src.id]?.failedAt).forEach(src => fetchSource(src, true)); };
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => { window.removeEventListener("online", onOnline); window.removeEventListener("offline", onOffline); };
+  }, [sources, loads]);
+  useEffect(() => { try { localStorage.setItem("workspaces", JSON.stringify(workspaces)); } catch {} }, [workspaces]);
+  useEffect(() => { try { localStorage.setItem("workspace", workspace.id); } catch {} }, [workspace.id]);
+  useEffect(() => {
+    fetch("/api/workspaces", { cache: "no-store" })
+      .then(res => res.ok ? res.json() : Promise.reject(new Error(`HTTP ${res.status}`)))
+      .then(body => { setWorkspaces(body.workspaces); setWorkspaceError(null); moveLegacySettings(body.workspaces); })
+      .catch(e => { console.error("Failed to load workspaces", e); setWorkspaceError("Couldn't load the workspaces — showing the last ones seen in this browser."); });
+  }, []);
+  useEffect(() => { try { localStorage.setItem(savedKey("taskCompletions"), JSON.stringify(completions)); } catch {} }, [completions, workspace.id]);
+  useEffect(() => { try { localStorage.setItem("trackerUser", userName); } catch {} }, [userName]);
+  useEffect(() => {
+    try {
+      const legacy = JSON.parse(localStorage.getItem("taskDoneKeys") || "null");
+      if (legacy) {
+        const user = localStorage.getItem("trackerUser") || "Imported";
+        // From before there were workspaces, so it belongs to the default one
+        const defaultId = DEFAULT_WORKSPACES[0].id;
+        writePendingOps([...readPendingOps(defaultId), ...legacy.map(key => ({ method: "POST", body: { key, user, note: "Imported from browser storage" } }))], defaultId);
+        localStorage.removeItem("taskDoneKeys");
       }
+    } catch {}
+    syncCompletions();
+    const id = setInterval(syncCompletions, 30000);
+    window.addEventListener("focus", syncCompletions);
+    return () => { clearInterval(id); window.removeEventListener("focus", syncCompletions); };
+  }, [workspace.id]);
+  useEffect(() => { try { localStorage.setItem(savedKey("spendBudgets"), JSON.stringify(budgets)); } catch {} }, [budgets, workspace.id]);
+  useEffect(() => { try { localStorage.setItem(savedKey("blockedDays"), JSON.stringify(blockedPrefs)); } catch {} }, [blockedPrefs, workspace.id]);
+  useEffect(() => { try { localStorage.setItem(savedKey("capacityLimits"), JSON.stringify(capacityLimits)); } catch {} }, [capacityLimits, workspace.id]);
+  useEffect(() => { try { localStorage.setItem(savedKey("draftPlans"), JSON.stringify(draftPlans)); } catch {} }, [draftPlans, workspace.id]);
+  useEffect(() => { try { localStorage.setItem(savedKey("dateChanges"), JSON.stringify(dateChanges)); } catch {} }, [dateChanges, workspace.id]);
+  useEffect(() => {
+    try { localStorage.setItem(savedKey("resultsSource"), JSON.stringify(resultsSource?.url ? resultsSource : null)); } catch {}
+    if (resultsSource?.url && !loads[RESULTS_ID]) { showCachedSheet(resultsSource); fetchSource(resultsSource); }
+  }, [resultsSource, workspace.id]);
+  useEffect(() => { try { localStorage.setItem(savedKey("columnProfiles"), JSON.stringify(columnProfiles)); } catch {} }, [columnProfiles, workspace.id]);
+
+  // Per source: resolve headers (aliases + saved profile), fill the default Category and normalize with a
+  // report of what was dropped or coerced (see normalizeSource). The sample rows are only shown when the workspace has
+  // no sources at all, never in place of a sheet that failed to load.
+  const loadedSources = useMemo(() => {
+    const list = sources.length > 0
+      ? sources.filter(src => loads[src.id]?.rows).map(src => ({ source: src, rows: loads[src.id].rows, fields: loads[src.id].fields, errors: loads[src.id].errors }))
+      : [{ source: SAMPLE_SOURCE, rows: sampleRows, fields: null, errors: [] }];
+    return list.map(({ source, rows, fields, errors }) =>
+      normalizeSource(source, { rows, fields, errors }, { profile: columnProfiles[sourceProfileKey(source)], rules: CADENCE_RULES }));
+  }, [sources, loads, columnProfiles]);
+  // Sundays, holidays and blackout dates: follow-ups landing on one move per the policy, mail drops are only flagged
+  const blocked: BlockedDays = useMemo(() => ({
+    ...BLOCKED_DAYS,
+    blackoutDates: Array.from(new Set([...BLOCKED_DAYS.blackoutDates, ...blockedPrefs.blackoutDates])).sort(),
+    policy: blockedPrefs.policy,
+  }), [blockedPrefs]);
+  const addBlackout = () => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(newBlackout)) return;
+    setBlockedPrefs(prev => ({ ...prev, blackoutDates: Array.from(new Set([...prev.blackoutDates, newBlackout])).sort() }));
+    setNewBlackout("");
+  };
+  const addDraftPlan = () => setDraftPlans(prev => [...prev, {
+    id: `plan-${Date.now()}`, campaign: "New campaign", category: "", part: "", channels: "Mail,Text,Voicemail",
+    total: 10000, batches: 4, start: format(addDays(endOfMonth(today), 1), "yyyy-MM-dd"), counts: [],
+  }]);
+  // Changing the list size or batch count goes back to an even split
+  const updateDraftPlan = (id, patch) => setDraftPlans(prev => prev.map(p => p.id !== id ? p : { ...p, ...patch, ...("total" in patch || "batches" in patch ? { counts: [] } : {}) }));
+  const removeDraftPlan = (id) => setDraftPlans(prev => prev.filter(p => p.id !== id));
+  const setDraftCount = (plan, i, value) => {
+    const counts = draftCounts(plan).slice();
+    counts[i] = Math.max(0, Number(value) || 0);
+    updateDraftPlan(plan.id, { counts });
+  };
+  // Every mail drop except this plan's own (other drafts included), to measure the plan against
+  const dropsWithout = (planId) => allData.filter(r => r.hasMail && r.raw.DraftPlan !== planId);
+  const suggestDraftSplit = (plan) => {
+    const { counts, fits } = suggestSplit(plan.total, draftDropDates(plan, dropWeekday, blocked), dropsWithout(plan.id), targets);
+    updateDraftPlan(plan.id, { counts });
+    if (!fits) window.alert("The months this plan covers can't take the whole list without going over target; the extra is spread across every batch.");
+  };
+  const removeBlackout = (date) => setBlockedPrefs(prev => ({ ...prev, blackoutDates: prev.blackoutDates.filter(d => d !== date) }));
+
+  // Planning mode: draft rows go through the same normalization and are merged in after the sheets, so month
+  // totals, follow-ups and capacity all include them. They never take statuses and don't count as imported rows.
+  const draftLoaded = useMemo(() => {
+    const rows = draftPlans.flatMap(plan => draftRows(plan, draftDropDates(plan, dropWeekday, blocked)).map(r => ({ ...r, DraftPlan: plan.id })));
+    return normalizeSource(DRAFT_SOURCE, { rows, fields: null, errors: [] }, { rules: CADENCE_RULES });
+  }, [draftPlans, blocked, dropWeekday]);
+  const { data: mergedData, duplicates } = useMemo(
+    () => mergeSchedule(planning && draftPlans.length ? [...loadedSources, draftLoaded] : loadedSources),
+    [loadedSources, draftLoaded, planning],
+  );
+  // Moves made by dragging in the calendar, until they're pasted into the sheet as adjusted dates
+  const allData = useMemo(() => applyDateChanges(mergedData, dateChanges), [mergedData, dateChanges]);
+  const movedRows = useMemo(() => latestChanges(dateChanges), [dateChanges]);
+  // Every view below works on the rows that pass the filter bar
+  const data = useMemo(() => allData.filter(r => rowMatchesFilter(r, rowFilter)), [allData, rowFilter]);
+  const filterChoices = useMemo(() => filterOptions(allData), [allData]);
+  const filterActive = isFilterActive(rowFilter);
+  const importTotals = useMemo(() => loadedSources.reduce((acc, l) => ({
+    accepted: acc.accepted + l.report.acceptedRows,
+    total: acc.total + l.report.totalRows,
+    issues: acc.issues + importIssueCount(l.report),
+  }), { accepted: 0, total: 0, issues: duplicates.length }), [loadedSources, duplicates]);
+  const showSourceColumn = loadedSources.length > 1;
+  const mappingSource = loadedSources.find(l => l.source.id === mappingSourceId);
+  const failedSources = sources.filter(src => loads[src.id]?.error);
+  // Sources shown from the browser cache because the last refresh failed; their errors go in the stale banner
+  const staleSources = sources.filter(src => loads[src.id]?.rows && loads[src.id]?.failedAt);
+  const loadErrors = failedSources.filter(src => !staleSources.includes(src));
+  const staleSince = staleSources.reduce((oldest, src) => !oldest || loads[src.id].fetchedAt < oldest ? loads[src.id].fetchedAt : oldest, null);
+
+  // Open the mapping dialog for the first source whose required columns can't be resolved
+  const unmapped = loadedSources.filter(l => l.missingRequired.length > 0 && l.source.id !== SAMPLE_SOURCE.id).map(l => l.source.id).join("|");
+  useEffect(() => { if (unmapped) setMappingSourceId(unmapped.split("|")[0]); }, [unmapped]);
+
+  // Mail drops plus the text/vm touches of each row's cadence rule (see buildTasks). Completion reconciliation needs
+  // every task; the views get the filtered ones.
+  const allTasks = useMemo(() => buildTasks(allData, CADENCE_RULES, blocked), [allData, blocked]);
+  const tasks = useMemo(
+    () => allTasks.filter(t => (!filterActive || rowMatchesFilter(t.ref, rowFilter)) && taskMatchesChannels(t, rowFilter.channels)),
+    [allTasks, rowFilter, filterActive],
+  );
+
+  // Capacity is about total volume, so it's checked against every task (filters don't hide a conflict)
+  const conflicts = useMemo(() => findConflicts(allTasks, capacityLimits), [allTasks, capacityLimits]);
+  const conflictDays = useMemo(() => conflictsByDay(conflicts), [conflicts]);
+  const upcomingConflicts = conflicts.filter(c => c.end >= new Date(today.getFullYear(), today.getMonth(), today.getDate()));
+  const setCapacityLimit = (kind, value) => setCapacityLimits(prev => ({ ...prev, [kind]: value === "" ? null : Math.max(0, Number(value) || 0) }));
+
+  // iCalendar download of the computed tasks, and the feed URL calendars can subscribe to. The feed reloads the
+  // workspace's sheets on the server, so uploaded files aren't in it.
+  const feedFilter = { channels: calendarFilter.channels, categories: calendarFilter.category ? [calendarFilter.category.toLowerCase()] : [] };
+  const downloadIcs = () => downloadBlob(new Blob([tasksToIcs(filterTasks(tasks, feedFilter))], { type: "text/calendar;charset=utf-8" }), "marketing-schedule.ics");
+  const feedUrl = () => {
+    const params = new URLSearchParams(feedFilterQuery(feedFilter));
+    params.set("workspace", workspace.id);
+    return `${window.location.origin}/api/calendar${params.toString() ? `?${params}` : ""}`;
+  };
+  const copyFeedUrl = async () => {
+    const url = feedUrl();
+    try { await navigator.clipboard.writeText(url); window.alert(`Feed link copied. In Google Calendar use "Other calendars → From URL"; in Outlook "Add calendar → Subscribe from web".\n\n${url}`); }
+    catch { window.prompt("Copy the calendar feed link:", url); }
+  };
+  const toggleCalendarChannel = (ch) => setCalendarFilter(prev => {
+    const current = prev.channels.length ? prev.channels : ["mail", "text", "vm"];
+    const channels = current.includes(ch) ? current.filter(c => c !== ch) : [...current, ch];
+    if (!channels.length) return prev;
+    return { ...prev, channels: channels.length === 3 ? [] : channels };
+  });
+
+  // Tasks per row, for the schedule table's Mail and Text/VM columns, the cadence matrix and the status filter
+  const followUpsByRow = useMemo(() => {
+    const map = new Map();
+    for (const t of tasks) {
+      if (t.type === "mail") continue;
+      if (!map.has(t.ref.id)) map.set(t.ref.id, []);
+      map.get(t.ref.id).push(t);
     }
-    return items.sort((a, b) => a.date - b.date);
-  }, [data]);
+    return map;
+  }, [tasks]);
+  const mailTaskByRow = useMemo(() => new Map(tasks.filter(t => t.type === "mail").map(t => [t.ref.id, t])), [tasks]);
+  // "open" keeps rows with follow-ups still to do; a status keeps rows where any of the row's tasks has it
+  const rowMatchesStatus = (r) => {
+    if (statusFilter === "all") return true;
+    const followUps = followUpsByRow.get(r.id) || [];
+    if (statusFilter === "open") return followUps.some(t => !isDoneStatus(statusOf(t)));
+    const rowTasks = [mailTaskByRow.get(r.id), ...followUps].filter(Boolean);
+    if (statusFilter === "none") return rowTasks.some(t => !statusOf(t));
+    return rowTasks.some(t => statusOf(t) === statusFilter);
+  };
+
+  // Task keys follow the row, not its date. Saved completions under older date-based keys are moved to the
+  // matching task; ones that match nothing are listed as orphans. Only done once every source has loaded, so a
+  // missing tab (or the sample data, or a stale cached copy) doesn't make real completions look orphaned.
+  const dataIsLive = sources.length > 0 && sources.every(src => loads[src.id]?.rows && !loads[src.id]?.loading && !loads[src.id]?.error && !loads[src.id]?.failedAt && !loads[src.id]?.cached);
+  const { rekeys, orphans } = useMemo(
+    () => dataIsLive ? reconcileCompletions(recordKeys, allTasks.filter(t => !isDraft(t.ref))) : { rekeys: [], orphans: [] },
+    [dataIsLive, recordKeys, allTasks],
+  );
+  useEffect(() => {
+    if (!rekeys.length) return;
+    const user = userName || "Tracker";
+    setCompletions(prev => {
+      const next = { ...prev };
+      for (const { from, to } of rekeys) { if (next[from] && !next[to]) next[to] = { ...next[from], key: to }; delete next[from]; }
+      return next;
+    });
+    writePendingOps([...readPendingOps(), ...rekeys.map(({ from, to }) => ({ method: "PATCH", body: { key: from, to, user } }))]);
+    syncCompletions();
+  }, [rekeys]);
+  const removeOrphan = (key) => {
+    setCompletions(prev => { const next = { ...prev }; delete next[key]; return next; });
+    writePendingOps([...readPendingOps(), { method: "DELETE", body: { key, user: userName || "Tracker" } }]);
+    syncCompletions();
+  };
 
   // Month summaries (mail counts only)
   const monthAgg = useMemo(() => {
@@ -327,8 +501,70 @@ export default function MarketingTracker() {
   const tasksThisWeek = tasks.filter((t) => inRange(t.date, thisWeek));
   const tasksNextWeek = tasks.filter((t) => inRange(t.date, nextWeek));
 
+  // Past Text/VM follow-ups nobody sent or skipped, by age, so they don't drop off the reminders
+  const [overdueSelected, setOverdueSelected] = useState<string[]>([]);
+  const overdue = useMemo(() => overdueTasks(tasks.filter(t => !isDraft(t.ref)), completions, today), [tasks, completions]);
+  const overdueGroups = groupOverdue(overdue, today);
+  const selectedOverdue = overdue.filter(t => overdueSelected.includes(t.idKey));
+  const toggleOverdue = (keys, on) => setOverdueSelected(prev => on ? Array.from(new Set([...prev, ...keys])) : prev.filter(k => !keys.includes(k)));
+  const bulkOverdue = (status) => {
+    if (!selectedOverdue.length) return;
+    setTasksStatus(selectedOverdue, status);
+    setOverdueSelected([]);
+  };
+  const scrollToOverdue = () => document.getElementById("overdue")?.scrollIntoView({ behavior: "smooth", block: "start" });
+
   // Weekly mail count for the visible month (current month by default)
-  const [viewDate, setViewDate] = useState(today);
+  const [viewDate, setViewDate] = useState(() => initialView.month ? new Date(`${initialView.month}-01T00:00:00`) : today);
+
+  // Keep the URL in step with the view: each change is a history entry (typing in the search box replaces it), and
+  // back/forward restores the view from the URL
+  const viewQuery = viewStateToQuery({
+    month: monthParam(viewDate),
+    sections: [
+      ...(showCalendar ? ["calendar"] : []), ...(showWeeklyTable ? ["weekly"] : []), ...(showCampaignTable ? ["schedule"] : []),
+      ...(showCadenceMatrix ? ["cadence"] : []), ...(showSpend ? ["spend"] : []), ...(showResults ? ["results"] : []),
+      ...(showCapacity ? ["capacity"] : []),
+    ] as Section[],
+    calendarView,
+    hidePast,
+    columns: [...(showCosts ? ["cost"] : []), ...(showCounty ? ["county"] : [])] as OptionalColumn[],
+    status: statusFilter,
+    filter: rowFilter,
+    workspace: workspace.id === workspaces[0]?.id ? "" : workspace.id,
+  });
+  const firstUrlSync = useRef(true);
+  useEffect(() => {
+    const current = window.location.search.replace(/^\?/, "");
+    if (current !== viewQuery) {
+      const url = `${window.location.pathname}${viewQuery ? `?${viewQuery}` : ""}${window.location.hash}`;
+      if (firstUrlSync.current || onlySearchChanged(current, viewQuery)) window.history.replaceState(null, "", url);
+      else window.history.pushState(null, "", url);
+    }
+    firstUrlSync.current = false;
+  }, [viewQuery]);
+  useEffect(() => {
+    const onPopState = () => {
+      const v = viewStateFromQuery(window.location.search);
+      setViewDate(v.month ? new Date(`${v.month}-01T00:00:00`) : new Date());
+      setShowCalendar(v.sections.includes("calendar"));
+      setShowWeeklyTable(v.sections.includes("weekly"));
+      setShowCampaignTable(v.sections.includes("schedule"));
+      setShowCadenceMatrix(v.sections.includes("cadence"));
+      setShowSpend(v.sections.includes("spend"));
+      setShowResults(v.sections.includes("results"));
+      setShowCapacity(v.sections.includes("capacity"));
+      setCalendarView(v.calendarView);
+      setHidePast(v.hidePast);
+      setShowCosts(v.columns.includes("cost"));
+      setShowCounty(v.columns.includes("county"));
+      setStatusFilter(v.status);
+      setRowFilter(v.filter);
+      setWorkspaceId(v.workspace);
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
   const thisMonthRows = useMemo(() => data.filter(r => isSameMonth(r.mailDate, viewDate) && r.hasMail), [data, viewDate]);
   const startToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
   const weeksForMonth = useMemo(() => {
@@ -349,10 +585,131 @@ export default function MarketingTracker() {
     return Array.from(weeks.values()).sort((a, b) => a.start - b.start);
   }, [thisMonthRows, viewDate]);
 
+  // Mail drops off the drop weekday or on a holiday/blackout date, keyed by row id; upcoming ones are listed in the
+  // blocked days panel
+  const mailIssues = useMemo(() => {
+    const byRow = new Map();
+    for (const r of data) {
+      if (!r.hasMail) continue;
+      const issues = mailDateIssues(r.mailDate, blocked, dropWeekday);
+      if (issues.length) byRow.set(r.id, issues);
+    }
+    return byRow;
+  }, [data, blocked, dropWeekday]);
+  const upcomingMailIssues = data
+    .filter(r => mailIssues.has(r.id) && r.mailDate >= startToday)
+    .sort((a, b) => a.mailDate.getTime() - b.mailDate.getTime());
+  const dropDayName = format(addDays(startOfWeek(today), dropWeekday), "EEEE");
+  const upcomingHolidays = [today.getFullYear(), today.getFullYear() + 1]
+    .flatMap(federalHolidays)
+    .filter(h => h.date >= format(today, "yyyy-MM-dd") && h.date <= format(addDays(today, 120), "yyyy-MM-dd"));
+
+  // The rows the schedule table and cadence matrix show, shared with their CSV/XLSX exports
+  const scheduleRows = data
+    .slice()
+    .sort((a,b)=>a.mailDate-b.mailDate)
+    .filter(r => !hidePast || r.mailDate >= startToday)
+    .filter(rowMatchesStatus);
+  const cadenceRows = useMemo(() => {
+    const groups = new Map();
+    for (const r of data) {
+      const key = cadenceGroupKey(r);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(r);
+    }
+    return Array.from(groups.entries()).map(([key, arr]) => {
+      const sorted = arr.slice().sort((a,b)=>a.mailDate-b.mailDate);
+      const dates = sorted.map(x=>format(x.mailDate, "M/d/yyyy"));
+      const total = sorted.reduce((s,x)=>s+(x.count||0),0);
+      return { key, total, d1: dates[0]||"", d2: dates[1]||"", d3: dates[2]||"", d4: dates[3]||"", d5: dates[4]||"", mail: sorted.slice(0,5).map(x=>mailTaskByRow.get(x.id)) };
+    }).sort((a,b)=>a.key.localeCompare(b.key));
+  }, [data, mailTaskByRow]);
+
+  // CSV/XLSX exports of the tables, with the same filters, optional columns and names as on screen
+  const statusText = (t) => { const st = t && statusOf(t); return st ? STATUS_META[st].label : ""; };
+  const scheduleTable = () => ({
+    title: "Campaign schedule",
+    columns: ["Date", "Campaign + Part", "Batch", ...(showSourceColumn ? ["Source"] : []), ...(showCounty ? ["County"] : []), "Mail?", "Text/VM On", "Mail Count", ...(showCosts ? ["Cost"] : [])],
+    rows: scheduleRows.map(r => [
+      format(r.mailDate, "EEE, MMM d, yyyy"),
+      campaignPartName(r),
+      r.batchNum ?? "",
+      ...(showSourceColumn ? [r.source] : []),
+      ...(showCounty ? [r.raw.County || ""] : []),
+      r.hasMail ? (statusText(mailTaskByRow.get(r.id)) || "Mail") : "No Mail",
+      (followUpsByRow.get(r.id) || []).map(t => `${format(t.date, "EEE, MMM d")} ${t.type === "text" ? "Text" : "VM"}${t.touch > 1 ? ` #${t.touch}` : ""}${statusText(t) ? ` (${statusText(t)})` : ""}`).join("; "),
+      r.hasMail ? r.count : "",
+      ...(showCosts ? [r.hasMail ? r.cost : ""] : []),
+    ]),
+  });
+  const weeklyTable = () => ({
+    title: `Weekly mail count ${format(viewDate, "yyyy-MM")}`,
+    columns: ["Week (Mon–Sun)", "Total"],
+    rows: weeksForMonth.map(w => [`${format(w.start, "MMM d")} – ${format(w.end, "MMM d")}`, w.total]),
+  });
+  const cadenceTable = () => ({
+    title: "Cadence matrix",
+    columns: ["Campaign + Part", "Total Count", "1st Batch", "2nd Batch", "3rd Batch", "4th Batch", "5th Batch"],
+    rows: cadenceRows.map(row => [row.key, row.total, ...[row.d1, row.d2, row.d3, row.d4, row.d5].map((d, k) => d && statusText(row.mail[k]) ? `${d} (${statusText(row.mail[k])})` : d)]),
+  });
+  const draftTable = () => ({
+    title: "Draft rows",
+    columns: ["Date", "Campaign", "Category", "Part", "Batch", "Count", "Channels"],
+    rows: draftPlans.flatMap(plan => draftRows(plan, draftDropDates(plan, dropWeekday, blocked)).map(r => [r.Date, r.Campaign, r.Category, r.Part, r.Batch, r.Count, r.Channels])),
+  });
+  const renderExportButtons = (build) => (
+    <span className="inline-flex gap-1 ml-auto">
+      {["csv", "xlsx"].map((fmt: ExportFormat) => (
+        <Button key={fmt} variant="outline" size="sm" onClick={() => { const table = build(); downloadBlob(exportBlob(table, fmt), exportFileName(table, fmt)); }}>
+          {fmt.toUpperCase()}
+        </Button>
+      ))}
+    </span>
+  );
+
   const monthlyTotal = useMemo(() => thisMonthRows.reduce((a, b) => a + b.count, 0), [thisMonthRows]);
-  const targetMin = 9000, targetMax = 10000;
-  const pct = Math.max(0, Math.min(100, (monthlyTotal / targetMax) * 100));
-  const inTarget = monthlyTotal >= targetMin && monthlyTotal <= targetMax;
+  // Filtered to one Category, the card measures against that Category's range. Targets can only be edited unfiltered.
+  const scopedTargets = useMemo(() => rowFilter.category ? targetsForCategory(targets, rowFilter.category) : targets, [targets, rowFilter.category]);
+  useEffect(() => { if (filterActive) setEditingTargets(false); }, [filterActive]);
+  const forecast = useMemo(() => forecastMonth(viewDate, thisMonthRows, { today, targets: scopedTargets, dropWeekday: dropWeekday }), [thisMonthRows, viewDate, scopedTargets]);
+  const { min: targetMin, max: targetMax } = forecast.target;
+  const pct = Math.max(0, Math.min(100, (monthlyTotal / (targetMax || 1)) * 100));
+  const inTarget = forecast.status === "within";
+  const statusLabel = (status) => status === "within" ? "Within target" : status === "below" ? "Below" : "Above";
+  const kfmt = (n) => n >= 1000 ? `${+(n / 1000).toFixed(1)}k` : String(n);
+
+  // Spend: by month and Category, cost per piece, and the viewed month's budget burn-down
+  const spendMonths = useMemo(() => spendByMonth(data), [data]);
+  const spendCategories = useMemo(() => spendByCategory(data.filter(r => isSameMonth(r.mailDate, viewDate))), [data, viewDate]);
+  const perPiece = useMemo(() => costPerPiece(data), [data]);
+  const budget = useMemo(() => monthBudget(viewDate, data, { today, budgets }), [data, viewDate, budgets]);
+  const setMonthBudget = (value) => setBudgets(prev => ({ ...prev, months: { ...(prev.months || {}), [budget.monthKey]: value } }));
+  const hasCosts = spendMonths.some(m => m.spend);
+
+  // Responses: sheet columns plus the results import, joined by campaign/part/batch
+  const importedResults = useMemo(() => {
+    const l = loads[RESULTS_ID];
+    return l?.rows ? normalizeResults(l.rows, l.fields || Object.keys(l.rows[0] || {})) : null;
+  }, [loads[RESULTS_ID]]);
+  const { rows: joinedResultRows, unmatched: unmatchedResults } = useMemo(() => joinResults(allData, importedResults?.byKey), [allData, importedResults]);
+  const resultRows = useMemo(() => joinedResultRows.filter(r => rowMatchesFilter(r, rowFilter)), [joinedResultRows, rowFilter]);
+  const responseCampaigns = useMemo(() => responseByCampaign(resultRows), [resultRows]);
+  const responseStages = useMemo(() => responseByStage(resultRows), [resultRows]);
+  const percent = (n) => n === null ? "—" : `${(n * 100).toFixed(n < 0.1 && n > -0.1 ? 2 : 0)}%`;
+
+  // Month target edits are stored as an override for the viewed month, in the workspace
+  const setTargets = (update) => saveWorkspace({ ...workspace, targets: update(workspace.targets) });
+  const setMonthTarget = (next) => setTargets(prev => ({ ...prev, months: { ...(prev.months || {}), [forecast.monthKey]: next } }));
+  const setCategoryTarget = (category, range) => {
+    const byCategory = { ...(forecast.target.byCategory || {}) };
+    if (range) byCategory[category] = range; else delete byCategory[category];
+    setMonthTarget({ ...forecast.target, byCategory });
+  };
+  const resetMonthTarget = () => setTargets(prev => {
+    const months = { ...(prev.months || {}) };
+    delete months[forecast.monthKey];
+    return { ...prev, months };
+  });
 
   // Calendar day cell renderer
   const monthDays = useMemo(() => {
@@ -364,37 +721,311 @@ export default function MarketingTracker() {
     });
   }, [viewDate, tasks]);
 
-  // CSV handling
-  const loadCsvText = (text) => {
-    Papa.parse(text, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (res) => {
-        setRows(res.data);
-      },
+  // Week and agenda views, and the day detail panel (opened from any view)
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(today, { weekStartsOn: 1 }));
+  const [agendaFrom, setAgendaFrom] = useState(() => new Date(today.getFullYear(), today.getMonth(), today.getDate()));
+  const [agendaTo, setAgendaTo] = useState(() => addDays(new Date(today.getFullYear(), today.getMonth(), today.getDate()), 30));
+  const [selectedDay, setSelectedDay] = useState(null);
+  const [selectedTaskKey, setSelectedTaskKey] = useState(null);
+  const weekDays = useMemo(
+    () => eachDayOfInterval({ start: weekStart, end: addDays(weekStart, 6) }).map(d => ({ date: d, tasks: tasks.filter(t => isSameDay(t.date, d)) })),
+    [weekStart, tasks],
+  );
+  const agendaDays = useMemo(() => {
+    if (agendaTo < agendaFrom) return [];
+    const byDay = new Map();
+    for (const t of tasks) {
+      if (t.date < agendaFrom || t.date > agendaTo) continue;
+      const key = format(t.date, "yyyy-MM-dd");
+      if (!byDay.has(key)) byDay.set(key, { date: t.date, tasks: [] });
+      byDay.get(key).tasks.push(t);
+    }
+    return Array.from(byDay.values());
+  }, [tasks, agendaFrom, agendaTo]);
+  const selectedDayTasks = selectedDay ? tasks.filter(t => isSameDay(t.date, selectedDay)) : [];
+  const openDay = (date, taskKey = null) => { setSelectedDay(date); setSelectedTaskKey(taskKey); };
+
+  // Drag a task to another day: preview the move (month totals and follow-ups before/after), then log it
+  const dragKey = useRef(null);
+  const onTaskDragStart = (e, t) => { dragKey.current = t.idKey; e.dataTransfer.effectAllowed = "move"; e.dataTransfer.setData("text/plain", t.idKey); };
+  const onDayDragOver = (e) => { if (dragKey.current) e.preventDefault(); };
+  const onDayDrop = (e, date) => {
+    e.preventDefault();
+    const t = allTasks.find(x => x.idKey === dragKey.current);
+    dragKey.current = null;
+    const move = t && proposeMove(t, date);
+    if (move) setPendingMove(move);
+  };
+  const pendingPreview = useMemo(() => {
+    if (!pendingMove) return null;
+    const row = allData.find(r => r.identity === pendingMove.identity);
+    if (!row) return null;
+    const moved = applyDateChanges([row], [pendingMove]);
+    return {
+      row,
+      months: monthTotalsForMove(allData.filter(r => !isDraft(r)), pendingMove),
+      before: buildTasks([row], CADENCE_RULES, blocked),
+      after: buildTasks(moved, CADENCE_RULES, blocked),
+    };
+  }, [pendingMove, allData, blocked]);
+  const confirmMove = () => { setDateChanges(prev => [...prev, pendingMove]); setPendingMove(null); setShowChangeLog(true); };
+  const undoMove = (index) => setDateChanges(prev => prev.filter((_, i) => i !== index));
+  const changeSet = () => changeSetTable(dateChanges, mergedData);
+
+  // Completion sync: replay queued changes, then take the server's snapshot as the truth. Each workspace has its
+  // own statuses on the server and its own queue here.
+  const readPendingOps = (id = workspace.id) => readSaved("pendingCompletionOps", [], id);
+  const writePendingOps = (ops, id = workspace.id) => { try { localStorage.setItem(savedKey("pendingCompletionOps", id), JSON.stringify(ops)); } catch {} };
+  const completionsUrl = (id: string) => `/api/completions?workspace=${encodeURIComponent(id)}`;
+  const sendCompletion = async (id, method, body) => {
+    const res = await fetch(completionsUrl(id), { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    if (!res.ok) throw new Error((await res.json().catch(() => null))?.error?.message || `HTTP ${res.status}`);
+    return res.json();
+  };
+  const syncCompletions = () => {
+    const id = workspace.id;
+    syncChain.current = syncChain.current.then(async () => {
+      try {
+        const queue = readPendingOps(id);
+        let snapshot = null;
+        for (const op of queue) snapshot = await sendCompletion(id, op.method, op.body);
+        writePendingOps(readPendingOps(id).slice(queue.length), id);
+        if (!snapshot) {
+          const res = await fetch(completionsUrl(id), { cache: "no-store" });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          snapshot = await res.json();
+        }
+        if (activeWorkspaceId.current !== id) return;
+        setCompletions(Object.fromEntries(snapshot.completions.map(c => [c.key, c])));
+        setSyncStatus({ syncedAt: new Date(), error: null });
+      } catch (e) {
+        console.error("Failed to sync completions", e);
+        setSyncStatus(prev => ({ ...prev, error: "Couldn't reach the completion server — changes are saved in this browser and will sync when it's back." }));
+      }
     });
+    return syncChain.current;
+  };
+  const askUserName = () => {
+    const name = window.prompt("Your name (shown to teammates next to the tasks you complete):", userName)?.trim();
+    if (name) setUserName(name);
+    return name || userName;
+  };
+  // Setting a status records today as the day it happened; the date can be corrected from the badge
+  const setTasksStatus = (list, status, date = "") => {
+    const user = userName || askUserName();
+    if (!user || !list.length) return;
+    const day = date || format(new Date(), "yyyy-MM-dd");
+    setCompletions(prev => {
+      const next = { ...prev };
+      for (const t of list) {
+        if (!status) delete next[t.idKey];
+        else next[t.idKey] = { ...prev[t.idKey], key: t.idKey, user, at: new Date().toISOString(), status, date: day };
+      }
+      return next;
+    });
+    writePendingOps([...readPendingOps(), ...list.map(t => status ? { method: "POST", body: { key: t.idKey, user, status, date: day } } : { method: "DELETE", body: { key: t.idKey, user } })]);
+    syncCompletions();
+  };
+  const setTaskStatus = (t, status, date = "") => setTasksStatus([t], status, date);
+  const editStatusDate = (t) => {
+    const status = statusOf(t);
+    const c = completions[t.idKey];
+    const date = window.prompt(`Date this task was ${STATUS_META[status].label.toLowerCase()} (yyyy-mm-dd):`, c?.date || format(new Date(c?.at || Date.now()), "yyyy-MM-dd"))?.trim();
+    if (!date) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) { window.alert("Use the yyyy-mm-dd format, e.g. 2024-05-14."); return; }
+    setTaskStatus(t, status, date);
+  };
+  const editNote = (t) => {
+    const user = userName || askUserName();
+    const note = window.prompt("Note for this task:", completions[t.idKey]?.note || "");
+    if (!user || note === null || note === undefined) return;
+    // An empty note clears it
+    setCompletions(prev => ({ ...prev, [t.idKey]: { ...prev[t.idKey], note: note.trim() || undefined } }));
+    writePendingOps([...readPendingOps(), { method: "POST", body: { key: t.idKey, user, note } }]);
+    syncCompletions();
+  };
+  const statusDay = (t) => {
+    const c = completions[t.idKey];
+    const day = c?.date ? new Date(`${c.date}T00:00:00`) : c?.at ? new Date(c.at) : null;
+    return day ? format(day, "MMM d") : "";
+  };
+  const renderStatusBadge = (t, { withDate = true } = {}) => {
+    const status = statusOf(t);
+    if (!status) return null;
+    const c = completions[t.idKey];
+    return (
+      <Badge variant={STATUS_META[status].variant} title={c?.user ? `${STATUS_META[status].label} — set by ${c.user}${c.at ? ` on ${format(new Date(c.at), "PPp")}` : ""}` : STATUS_META[status].label}>
+        {STATUS_META[status].label}{withDate && statusDay(t) ? ` · ${statusDay(t)}` : ""}
+      </Badge>
+    );
+  };
+  const renderTaskIcon = (t, size = "h-3 w-3") => (
+    t.type === "mail" ? <Mail className={size}/> : t.type === "text" ? <MessageSquare className={size}/> : <Voicemail className={size}/>
+  );
+  // One line per task in the month and week grids; clicking it opens the day with the task highlighted
+  const renderTaskChip = (t, i) => (
+    <div key={i} className={`flex items-center gap-1 text-[11px] truncate hover:bg-slate-50 rounded ${isDraft(t.ref) ? "italic text-violet-700" : "cursor-grab"} ${movedRows.has(t.ref.identity) ? "text-sky-800" : ""}`}
+      draggable={!isDraft(t.ref)} onDragStart={(e) => onTaskDragStart(e, t)} onDragEnd={() => { dragKey.current = null; }}
+      title={movedRows.has(t.ref.identity) ? "Moved — not in the sheet yet" : "Drag to another day to reschedule"}
+      onClick={(e) => { e.stopPropagation(); openDay(t.date, t.idKey); }}>
+      {renderTaskIcon(t)}
+      {t.type === "mail" && mailIssues.has(t.ref.id) && <span title={mailIssues.get(t.ref.id).join(" · ")}><AlertTriangle className="h-3 w-3 text-amber-600"/></span>}
+      {t.originalDate && <span title={`Moved from ${format(t.originalDate, "EEE, MMM d")} (${t.blockedReason})`} className="text-slate-400">↷</span>}
+      <span className="truncate">{t.ref.campaign}{t.ref.part ? " • " + t.ref.part : ""}{t.ref.batch ? " • " + t.ref.batch : ""}</span>
+      {t.type === "mail" && !!t.ref.count && <span className="ml-auto text-slate-500">{t.ref.count.toLocaleString()}</span>}
+      {statusOf(t) && <span className={`${t.type === "mail" && t.ref.count ? "" : "ml-auto "}shrink-0`}>{renderStatusBadge(t, { withDate: false })}</span>}
+    </div>
+  );
+  // Day cells: red when over capacity, with the holiday/blackout name
+  const dayCellClass = (date) => (conflictDays.has(format(date, "yyyy-MM-dd")) ? "bg-red-50 border-red-300" : "bg-white");
+  const dayCellTitle = (date) => (conflictDays.get(format(date, "yyyy-MM-dd")) || []).map(c => c.message).join("\n") || undefined;
+  const renderDayFlags = (date, dim) => {
+    const closed = blockedReason(date, { ...blocked, weekdays: [] });
+    return (
+      <>
+        {conflictDays.has(format(date, "yyyy-MM-dd")) && <div className="text-[10px] text-red-700 flex items-center gap-1"><AlertTriangle className="h-3 w-3"/>Over capacity</div>}
+        {closed && <div className={`text-[10px] truncate ${dim ? "text-slate-300" : "text-rose-600"}`} title={closed}>{closed}</div>}
+      </>
+    );
+  };
+  const renderDoneControl = (t) => {
+    if (isDraft(t.ref)) return <Badge variant="secondary" title="Planning draft — not in the sheet yet">Draft</Badge>;
+    const c = completions[t.idKey];
+    const status = statusOf(t);
+    const who = c && c.user ? `Set by ${c.user}${c.at ? ` on ${format(new Date(c.at), "PPp")}` : ""}${c.note ? ` — ${c.note}` : ""}` : "Set status";
+    return (
+      <>
+        <select className="text-xs border rounded px-1 py-0.5 bg-white" title={who} value={status || ""} onChange={(e) => setTaskStatus(t, e.target.value || null)}>
+          <option value="">{t.type === "mail" ? "Planned" : "Not started"}</option>
+          {statusesFor(t.type).map(st => <option key={st} value={st}>{STATUS_META[st].label}</option>)}
+        </select>
+        {c && (
+          <span className="inline-flex items-center gap-1 text-xs text-slate-500 whitespace-nowrap order-last" title={who}>
+            {status && (
+              <button type="button" className="hover:underline" onClick={() => editStatusDate(t)} title="Change the date">
+                {statusDay(t)}
+              </button>
+            )}
+            {c.user && <>· {c.user}</>}
+            <button type="button" className={c.note ? "text-sky-700" : "text-slate-400"} onClick={() => editNote(t)} title={c.note || "Add a note"}>
+              <StickyNote className="h-3 w-3" />
+            </button>
+          </span>
+        )}
+      </>
+    );
   };
 
+  // CSV handling (parseSheetCsv keeps blank lines so row numbers in the import report match the sheet)
+  const setLoad = (id, patch) => setLoads(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
   const onFile = (e) => {
     const f = e.target.files?.[0];
     if (!f) return;
     const reader = new FileReader();
-    reader.onload = (evt) => loadCsvText(String(evt.target?.result || ""));
+    reader.onload = (evt) => {
+      const src = { id: `file:${f.name}`, label: f.name, url: "" };
+      setFileSources(prev => [...prev.filter(x => x.id !== src.id), src]);
+      setLoad(src.id, { ...parseSheetCsv(String(evt.target?.result || "")), fetchedAt: new Date(), error: null });
+    };
     reader.readAsText(f);
   };
 
-  const fetchSheet = async () => {
-    if (!sheetUrl) return;
-    const url = toCsvUrl(sheetUrl);
+  const fetchSource = async (src, refresh = false) => {
+    if (!src.url) return;
+    setLoad(src.id, { loading: true });
     try {
-      const res = await fetch(url, { cache: "no-store" });
-      const text = await res.text();
-      loadCsvText(text);
+      const res = await fetch(sheetProxyUrl(src.url, { gid: src.gid, refresh }), refresh ? { cache: "no-store" } : undefined);
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        const error = body?.error || { code: "http_error", message: `Sheet proxy returned HTTP ${res.status}.` };
+        console.error(`Failed to load sheet CSV (${src.label})`, error);
+        setLoad(src.id, { loading: false, error, failedAt: new Date() });
+        return;
+      }
+      const parsed = parseSheetCsv(await res.text());
+      const fetchedAt = new Date(res.headers.get("X-Sheet-Fetched-At") || Date.now());
+      setLoad(src.id, { ...parsed, loading: false, fetchedAt, error: null, failedAt: null, cached: false });
+      saveCachedSheet({ key: sourceProfileKey(src), label: src.label, url: src.url, gid: src.gid, ...parsed, fetchedAt: fetchedAt.toISOString() });
     } catch (e) {
-      console.error("Failed to load sheet CSV", e);
-      alert("Couldn't load the sheet. Make sure it's published to the web (File → Share → Publish to web → CSV), or share it with 'Anyone with the link' and we will try the export URL.");
+      console.error(`Failed to load sheet CSV (${src.label})`, e);
+      setLoad(src.id, { loading: false, error: { code: "network", message: "Couldn't reach the sheet proxy. Check your connection and try again." }, failedAt: new Date() });
     }
   };
+  // The last good copy from this browser stands in until the sheet loads, and stays (marked stale) if it can't
+  const showCachedSheet = (src) => readCachedSheet(sourceProfileKey(src)).then(cached => {
+    if (!cached) return;
+    setLoads(prev => prev[src.id]?.rows ? prev : {
+      ...prev,
+      [src.id]: { ...prev[src.id], rows: cached.rows, fields: cached.fields, errors: cached.errors, fetchedAt: new Date(cached.fetchedAt), cached: true },
+    });
+  });
+  const reloadAll = () => [...sources, ...(resultsSource?.url ? [resultsSource] : [])].forEach(src => fetchSource(src, true));
+
+  const loadResultsLink = () => {
+    const url = resultsLink.trim();
+    if (!url) return;
+    const src = { id: RESULTS_ID, label: "Results", url };
+    setResultsSource(src);
+    setResultsLink("");
+    fetchSource(src, true);
+  };
+  const onResultsFile = (e) => {
+    const f = e.target.files?.[0];
+    if (!f) return;
+    const reader = new FileReader();
+    reader.onload = (evt) => {
+      setResultsSource({ id: RESULTS_ID, label: f.name, url: "" });
+      setLoad(RESULTS_ID, { ...parseSheetCsv(String(evt.target?.result || "")), fetchedAt: new Date(), error: null });
+    };
+    reader.readAsText(f);
+  };
+  const removeResults = () => {
+    setResultsSource(null);
+    setLoads(prev => { const next = { ...prev }; delete next[RESULTS_ID]; return next; });
+  };
+
+  // Changes go to the server right away; the page keeps showing them if the save fails
+  const saveWorkspace = (next: Workspace) => {
+    setWorkspaces(prev => prev.map(w => w.id === next.id ? next : w));
+    fetch("/api/workspaces", { method: "PUT", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ workspace: next }) })
+      .then(async res => {
+        if (!res.ok) throw new Error((await res.json().catch(() => null))?.error?.message || `HTTP ${res.status}`);
+        setWorkspaceError(null);
+      })
+      .catch(e => { console.error("Failed to save workspace", e); setWorkspaceError(`Couldn't save ${next.name}: ${e.message}`); });
+  };
+  // Sheet links and targets saved in this browser before workspaces existed move into the default workspace once
+  const moveLegacySettings = (list: Workspace[]) => {
+    try {
+      const legacySources: SheetSource[] = JSON.parse(localStorage.getItem("sheetSources") || "null") || [];
+      const legacyTargets = JSON.parse(localStorage.getItem("mailTargets") || "null");
+      if (!legacySources.length && !legacyTargets) return;
+      const first = list[0];
+      const known = new Set(first.sources.map(src => sourceProfileKey(src)));
+      saveWorkspace({
+        ...first,
+        sources: [...first.sources, ...legacySources.filter(src => src.url && !known.has(sourceProfileKey(src))).map(({ fixed, ...src }) => src)],
+        targets: legacyTargets || first.targets,
+      });
+      localStorage.removeItem("sheetSources");
+      localStorage.removeItem("mailTargets");
+    } catch {}
+  };
+
+  const addSource = () => {
+    const url = newSource.url.trim();
+    if (!url) return;
+    const id = `src-${Date.now().toString(36)}`;
+    const label = newSource.label.trim() || `Source ${workspace.sources.length + 1}`;
+    saveWorkspace({ ...workspace, sources: [...workspace.sources, { id, label, url, gid: newSource.gid.trim(), category: newSource.category.trim() }] });
+    setNewSource({ label: "", url: "", gid: "", category: "" });
+  };
+  const removeSource = (id) => {
+    if (workspace.sources.some(src => src.id === id)) saveWorkspace({ ...workspace, sources: workspace.sources.filter(src => src.id !== id) });
+    setFileSources(prev => prev.filter(src => src.id !== id));
+    setLoads(prev => { const next = { ...prev }; delete next[id]; return next; });
+  };
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-slate-50 to-slate-100 text-slate-800">
@@ -402,37 +1033,324 @@ export default function MarketingTracker() {
         <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-3">
           <CalendarDays className="h-6 w-6" />
           <h1 className="text-xl font-semibold">Marketing Schedule Tracker</h1>
+          <select className="text-sm border rounded-md px-2 py-1 bg-white" value={workspace.id} onChange={(e) => setWorkspaceId(e.target.value)} title="Workspace: its sheets, targets and drop day">
+            {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          <a href={`/settings?workspace=${encodeURIComponent(workspace.id)}`} className="text-slate-500 hover:text-slate-800" title="Workspace settings">
+            <Settings className="h-4 w-4" />
+          </a>
+          {workspaceError && <span title={workspaceError}><AlertTriangle className="h-4 w-4 text-amber-600" /></span>}
           <div className="ml-auto flex items-center gap-2">
-            {!USE_FIXED_SOURCE && (
+            {!workspace.sources.length && (
               <label className="inline-flex items-center gap-2 text-sm px-3 py-2 rounded-xl border bg-white shadow-sm cursor-pointer">
                 <Upload className="h-4 w-4" />
                 <span>Upload CSV</span>
                 <input type="file" accept=".csv" onChange={onFile} className="hidden" />
               </label>
             )}
-            <div className="hidden md:flex items-center gap-2">
-              {USE_FIXED_SOURCE ? (
-                <div className="text-xs text-slate-500">Source: Fixed Google Sheet — tab: ${FIXED_SHEET_TAB_NAME || 'Default'} ${FIXED_SHEET_GID ? `(gid=${FIXED_SHEET_GID})` : ''}</div>
-              ) : (
-                <>
-                  <Input placeholder="Paste Google Sheet link or CSV link" value={sheetUrl} onChange={(e)=>setSheetUrl(e.target.value)} className="w-80" />
-                  <Button onClick={fetchSheet} variant="secondary">Connect</Button>
-                </>
+            <Button variant="ghost" size="sm" onClick={askUserName} title={syncStatus.error || (syncStatus.syncedAt ? `Completions synced ${format(syncStatus.syncedAt, "p")}` : "Completions not synced yet")}>
+              <User className="h-4 w-4 mr-1" />
+              {userName || "Set your name"}
+              {syncStatus.error && <AlertTriangle className="h-3 w-3 ml-1 text-amber-600" />}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowSources(v => !v)} title="Sheet tabs and files merged into the schedule">
+              Sources: {sources.length}
+              {sources.some(src => loads[src.id]?.loading) && <RefreshCw className="h-3 w-3 ml-2 animate-spin" />}
+              {failedSources.length > 0 && <Badge variant="destructive" className="ml-2">{failedSources.length} failed</Badge>}
+            </Button>
+            {sources.some(src => src.url) && (
+              <Button variant="ghost" size="sm" onClick={reloadAll} title="Reload every sheet from Google Sheets">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant={planning ? "default" : "outline"} size="sm" onClick={() => setPlanning(v => !v)} title="Draft batches on top of the sheet and see the effect on month totals">
+              Plan{draftPlans.length > 0 && <Badge variant="secondary" className="ml-2">{draftPlans.length}</Badge>}
+            </Button>
+            {overdue.length > 0 && (
+              <Button variant="outline" size="sm" onClick={scrollToOverdue} title="Past Text/VM follow-ups not sent or skipped">
+                Overdue
+                <Badge variant="destructive" className="ml-2">{overdue.length}</Badge>
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setShowBlocked(v => !v)} title="Holidays, blackout dates and drops off the usual day">
+              Blocked days
+              {upcomingMailIssues.length > 0 && <Badge variant="warning" className="ml-2">{upcomingMailIssues.length}</Badge>}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowImportReport(v => !v)} title="Show what happened to each row in the last load">
+              <ClipboardList className="h-4 w-4 mr-1" />
+              Import: {importTotals.accepted}/{importTotals.total} rows
+              {importTotals.issues > 0 && <Badge variant="destructive" className="ml-2">{importTotals.issues}</Badge>}
+            </Button>
+          </div>
+        </div>
+        {showBlocked && (
+          <div className="max-w-7xl mx-auto px-4 pb-3">
+            <div className="rounded-md border bg-white px-3 py-2 text-sm grid md:grid-cols-3 gap-4">
+              <div>
+                <div className="font-medium mb-2">Follow-ups on a blocked day</div>
+                <select className="rounded-md border border-gray-300 px-2 py-1 w-full" value={blockedPrefs.policy} onChange={(e) => setBlockedPrefs(prev => ({ ...prev, policy: e.target.value as ShiftPolicy }))}>
+                  <option value="next">Move to the next open day</option>
+                  <option value="previous">Move to the open day before</option>
+                  <option value="none">Keep the date, just flag it</option>
+                </select>
+                <div className="text-xs text-slate-500 mt-2">Blocked: Sundays, US federal/USPS holidays and the blackout dates below. Mail drops are never moved, only flagged.</div>
+              </div>
+              <div>
+                <div className="font-medium mb-2">Blackout dates</div>
+                <div className="flex items-center gap-2 mb-2">
+                  <input type="date" className="rounded-md border border-gray-300 px-2 py-1" value={newBlackout} onChange={(e) => setNewBlackout(e.target.value)} />
+                  <Button variant="outline" size="sm" onClick={addBlackout} disabled={!newBlackout}>Add</Button>
+                </div>
+                {blocked.blackoutDates.length === 0 ? <div className="text-slate-500">None.</div> : (
+                  <ul className="space-y-1">
+                    {blocked.blackoutDates.map(d => (
+                      <li key={d} className="flex items-center gap-2">
+                        <span>{format(new Date(`${d}T00:00:00`), "EEE, MMM d, yyyy")}</span>
+                        {blockedPrefs.blackoutDates.includes(d)
+                          ? <Button variant="ghost" size="sm" className="ml-auto" onClick={() => removeBlackout(d)}>Remove</Button>
+                          : <span className="ml-auto text-xs text-slate-400">lib/config.ts</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="font-medium mt-3 mb-1">Holidays (next 4 months)</div>
+                <ul className="space-y-0.5 text-xs text-slate-600">
+                  {upcomingHolidays.map(h => <li key={h.date + h.name}>{format(new Date(`${h.date}T00:00:00`), "EEE, MMM d")} — {h.name}{h.observed ? " (observed)" : ""}</li>)}
+                </ul>
+              </div>
+              <div>
+                <div className="font-medium mb-2">Upcoming drops to check ({upcomingMailIssues.length})</div>
+                {upcomingMailIssues.length === 0 ? <div className="text-slate-500">Every upcoming drop is on a {dropDayName} and clear of holidays.</div> : (
+                  <ul className="space-y-1">
+                    {upcomingMailIssues.map(r => (
+                      <li key={r.id}>
+                        <span className="font-medium whitespace-nowrap">{format(r.mailDate, "EEE, MMM d")}</span> — {campaignPartName(r)}{r.batch ? ` • ${r.batch}` : ""}
+                        <div className="text-xs text-amber-700">{mailIssues.get(r.id).join(" · ")}</div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+        {showSources && (
+          <div className="max-w-7xl mx-auto px-4 pb-3">
+            <div className="rounded-md border bg-white px-3 py-2 text-sm">
+              <div className="font-medium mb-2">Sources</div>
+              {sources.length === 0 && <div className="text-slate-500 mb-2">No sources yet — showing sample data. Add a sheet link below{!workspace.sources.length ? " or upload a CSV" : ""}.</div>}
+              <ul className="space-y-1 mb-3">
+                {sources.map(src => {
+                  const load = loads[src.id] || {};
+                  return (
+                    <li key={src.id} className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{src.label}</span>
+                      {src.gid && <span className="text-xs text-slate-500">gid={src.gid}</span>}
+                      {src.category && <Badge>{src.category}</Badge>}
+                      {src.url && <span className="text-xs text-slate-400 truncate max-w-xs" title={src.url}>{src.url}</span>}
+                      <span className="ml-auto text-xs">
+                        {load.loading ? <span className="text-slate-500">Loading…</span>
+                          : load.error ? <span className="text-red-700" title={load.error.message}>Failed: {load.error.code.replace(/_/g, " ")}</span>
+                          : load.rows ? <span className="text-slate-500" title={load.fetchedAt ? format(load.fetchedAt, "PPpp") : ""}>{load.rows.length} rows{load.fetchedAt ? ` · ${formatDistanceToNow(load.fetchedAt, { addSuffix: true })}` : ""}</span>
+                          : <span className="text-slate-400">Not loaded</span>}
+                      </span>
+                      {src.url && (
+                        <Button variant="ghost" size="sm" onClick={() => fetchSource(src, true)} disabled={load.loading} title="Reload from Google Sheets">
+                          <RefreshCw className={`h-4 w-4 ${load.loading ? "animate-spin" : ""}`} />
+                        </Button>
+                      )}
+                      {load.rows && <Button variant="ghost" size="sm" onClick={() => setMappingSourceId(src.id)}>Map columns…</Button>}
+                      <Button variant="ghost" size="sm" onClick={() => removeSource(src.id)}>Remove</Button>
+                    </li>
+                  );
+                })}
+              </ul>
+              <div className="flex flex-wrap items-center gap-2">
+                <Input placeholder="Label (e.g. OK tab)" value={newSource.label} onChange={(e) => setNewSource(prev => ({ ...prev, label: e.target.value }))} className="w-40 h-8" />
+                <Input placeholder="Paste Google Sheet link or CSV link" value={newSource.url} onChange={(e) => setNewSource(prev => ({ ...prev, url: e.target.value }))} className="w-80 h-8" />
+                <Input placeholder="gid (optional)" value={newSource.gid} onChange={(e) => setNewSource(prev => ({ ...prev, gid: e.target.value }))} className="w-28 h-8" />
+                <Input placeholder="Default Category" value={newSource.category} onChange={(e) => setNewSource(prev => ({ ...prev, category: e.target.value }))} className="w-36 h-8" />
+                <Button size="sm" onClick={addSource} disabled={!newSource.url.trim()}>Add source</Button>
+              </div>
+            </div>
+          </div>
+        )}
+        {showImportReport && (
+          <div className="max-w-7xl mx-auto px-4 pb-3">
+            <div className="rounded-md border bg-white px-3 py-2 text-sm max-h-80 overflow-y-auto">
+              <div className="font-medium mb-1">Import report — {importTotals.accepted} of {importTotals.total} rows used</div>
+              {importTotals.issues === 0 && <div className="text-slate-500">Every row was read as-is.</div>}
+              {loadedSources.map(({ source, report }) => (
+                <div key={source.id} className="mb-2">
+                  {loadedSources.length > 1 && (
+                    <div className="font-medium flex items-center gap-2 border-b mb-1">
+                      {source.label} — {report.acceptedRows} of {report.totalRows} rows
+                    </div>
+                  )}
+                  {report.missingColumns.length > 0 && (
+                    <div className="text-red-700 mb-2">
+                      Missing required column{report.missingColumns.length > 1 ? "s" : ""}: {report.missingColumns.join(", ")}
+                      {source.id !== SAMPLE_SOURCE.id && <Button variant="ghost" size="sm" onClick={() => setMappingSourceId(source.id)}>Map columns…</Button>}
+                    </div>
+                  )}
+                  {[
+                    { title: "Rejected rows (not in the schedule)", items: report.rejected, tone: "text-red-700" },
+                    { title: "Coerced values", items: report.coerced, tone: "text-amber-700" },
+                    { title: "Unknown Channels/Tags tokens", items: report.unknownTokens, tone: "text-slate-700" },
+                    { title: "CSV parser warnings", items: report.parseErrors, tone: "text-slate-700" },
+                  ].filter(section => section.items.length > 0).map(section => (
+                    <div key={section.title} className="mb-2">
+                      <div className={`font-medium ${section.tone}`}>{section.title} ({section.items.length})</div>
+                      <ul className="text-xs space-y-0.5">
+                        {section.items.map((issue, i) => (
+                          <li key={i}>
+                            <span className="font-mono">Row {issue.line || "?"}</span>
+                            {issue.column && <> · {issue.column}</>}
+                            {issue.value !== undefined && issue.value !== "" && <> · “{issue.value}”</>}
+                            {" "}— {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {duplicates.length > 0 && (
+                <div className="mb-2">
+                  <div className="font-medium text-amber-700">Duplicates across sources, left out ({duplicates.length})</div>
+                  <ul className="text-xs space-y-0.5">
+                    {duplicates.map((d, i) => (
+                      <li key={i}><span className="font-mono">{d.source} row {d.line}</span> — same date, campaign, part and batch as {d.keptSource} row {d.keptLine}</li>
+                    ))}
+                  </ul>
+                </div>
               )}
             </div>
           </div>
-        </div>
+        )}
         <div className="max-w-7xl mx-auto px-4 pb-3 flex flex-wrap gap-3 text-sm">
           <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showCalendar} onChange={e=>setShowCalendar(e.target.checked)} /> Calendar</label>
           <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showWeeklyTable} onChange={e=>setShowWeeklyTable(e.target.checked)} /> Weekly count</label>
           <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showCampaignTable} onChange={e=>setShowCampaignTable(e.target.checked)} /> Campaign schedule</label>
           <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showCadenceMatrix} onChange={e=>setShowCadenceMatrix(e.target.checked)} /> Cadence matrix</label>
+          <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showResults} onChange={e=>setShowResults(e.target.checked)} /> Results</label>
+          <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showSpend} onChange={e=>setShowSpend(e.target.checked)} /> Spend{budget.over > 0 && <Badge variant="destructive">Over budget</Badge>}</label>
+          <label className="inline-flex items-center gap-2"><input type="checkbox" className="accent-sky-600" checked={showCapacity} onChange={e=>setShowCapacity(e.target.checked)} /> Capacity{upcomingConflicts.length > 0 && <Badge variant="destructive">{upcomingConflicts.length} conflict{upcomingConflicts.length === 1 ? "" : "s"}</Badge>}</label>
           <label className="inline-flex items-center gap-2 ml-auto"><input type="checkbox" className="accent-sky-600" checked={hidePast} onChange={e=>setHidePast(e.target.checked)} /> Hide past (schedule)</label>
         </div>
+        <div className="max-w-7xl mx-auto px-4 pb-3 flex flex-wrap items-center gap-2 text-sm">
+          <Filter className="h-4 w-4 text-slate-500" />
+          {[["category", "All categories", filterChoices.categories], ["county", "All counties", filterChoices.counties], ["campaign", "All campaigns", filterChoices.campaigns]].map(([field, label, options]: [string, string, string[]]) => (
+            <select key={field} className={`rounded-md border px-2 py-1 ${rowFilter[field] ? "border-sky-500 bg-sky-50" : "border-gray-300 bg-white"}`} value={rowFilter[field]} onChange={(e) => setRowFilter(prev => ({ ...prev, [field]: e.target.value }))}>
+              <option value="">{label}</option>
+              {options.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          ))}
+          {[["mail", "Mail"], ["text", "Text"], ["vm", "VM"], ["nomail", "No-mail"]].map(([ch, name]: [FilterChannel, string]) => (
+            <label key={ch} className="inline-flex items-center gap-1">
+              <input type="checkbox" className="accent-sky-600" checked={rowFilter.channels.includes(ch)}
+                onChange={() => setRowFilter(prev => ({ ...prev, channels: prev.channels.includes(ch) ? prev.channels.filter(c => c !== ch) : [...prev.channels, ch] }))} />
+              {name}
+            </label>
+          ))}
+          <Input className="h-8 w-56" placeholder="Search campaign, batch, county…" value={rowFilter.text} onChange={(e) => setRowFilter(prev => ({ ...prev, text: e.target.value }))} />
+          {filterActive && (
+            <>
+              <span className="text-xs text-slate-500">{data.length} of {allData.length} rows</span>
+              <Button variant="ghost" size="sm" onClick={() => setRowFilter(EMPTY_FILTER)}>Clear filters</Button>
+            </>
+          )}
+        </div>
+        {staleSources.length > 0 && (
+          <div className="max-w-7xl mx-auto px-4 pb-3">
+            <div className="flex items-center gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm text-amber-900">
+              <WifiOff className="h-4 w-4 shrink-0" />
+              <div>
+                <span className="font-medium">Stale since {format(staleSince, "PPp")}</span> ({formatDistanceToNow(staleSince, { addSuffix: true })}) —{" "}
+                {staleSources.map(src => src.label).join(", ")} couldn't be refreshed{online ? "" : " because you're offline"}, so this is the last copy saved in this browser.
+                {online && staleSources.filter(src => loads[src.id].error).map(src => (
+                  <div key={src.id} className="text-xs">{src.label}: {loads[src.id].error.message}</div>
+                ))}
+              </div>
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={() => staleSources.forEach(src => fetchSource(src, true))}>Retry</Button>
+            </div>
+          </div>
+        )}
+        {loadErrors.length > 0 && (
+          <div className="max-w-7xl mx-auto px-4 pb-3 space-y-2">
+            {loadErrors.map(src => (
+              <div key={src.id} className="flex items-start gap-2 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <div>
+                  <div className="font-medium">Couldn't load {src.label} — no saved copy in this browser yet</div>
+                  <div>{loads[src.id].error.message}</div>
+                </div>
+                <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setLoad(src.id, { error: null })}>Dismiss</Button>
+              </div>
+            ))}
+          </div>
+        )}
       </header>
 
+      {mappingSource && (
+        <ColumnMappingDialog
+          key={mappingSource.source.id}
+          title={mappingSource.source.label}
+          fields={mappingSource.csvFields}
+          mapping={mappingSource.mapping}
+          onClose={() => setMappingSourceId(null)}
+          onSave={(profile) => { setColumnProfiles(prev => ({ ...prev, [sourceProfileKey(mappingSource.source)]: profile })); setMappingSourceId(null); }}
+        />
+      )}
+
       {/* Reminder banners */}
       <section className="max-w-7xl mx-auto px-4 py-4 grid md:grid-cols-2 gap-4">
+        {overdue.length > 0 && (
+          <Card id="overdue" className="shadow-sm border-red-200 md:col-span-2 scroll-mt-4">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2 flex-wrap">
+                <AlertTriangle className="h-4 w-4 text-red-600"/> Overdue ({overdue.length})
+                <span className="ml-auto flex items-center gap-2 text-sm font-normal">
+                  {selectedOverdue.length > 0 && <span className="text-slate-500">{selectedOverdue.length} selected</span>}
+                  <Button variant="outline" size="sm" disabled={!selectedOverdue.length} onClick={() => bulkOverdue("sent")}>Mark sent</Button>
+                  <Button variant="outline" size="sm" disabled={!selectedOverdue.length} onClick={() => bulkOverdue("skipped")}>Skip</Button>
+                  {selectedOverdue.length > 0 && <Button variant="ghost" size="sm" onClick={() => setOverdueSelected([])}>Clear</Button>}
+                </span>
+              </CardTitle>
+              <div className="text-sm text-slate-600 mt-1">Text and VM follow-ups whose date has passed without being sent or skipped.</div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {overdueGroups.map(g => {
+                const keys = g.tasks.map(t => t.idKey);
+                const allOn = keys.every(k => overdueSelected.includes(k));
+                return (
+                  <div key={g.label}>
+                    <label className="flex items-center gap-2 text-sm font-medium mb-1">
+                      <input type="checkbox" className="accent-sky-600" checked={allOn} onChange={(e) => toggleOverdue(keys, e.target.checked)} />
+                      {g.label} ({g.tasks.length})
+                    </label>
+                    <ul className="text-sm space-y-2 pl-6">
+                      {g.tasks.map(t => {
+                        const late = differenceInCalendarDays(today, t.date);
+                        return (
+                          <li key={t.idKey} className="flex items-center gap-2">
+                            <input type="checkbox" className="accent-sky-600" checked={overdueSelected.includes(t.idKey)} onChange={(e) => toggleOverdue([t.idKey], e.target.checked)} />
+                            {renderTaskIcon(t, "h-4 w-4")}
+                            {renderDoneControl(t)}
+                            <span className="font-medium whitespace-nowrap">{format(t.date, "EEE, MMM d")}</span>
+                            <span className="truncate">— {t.label}</span>
+                            {t.stage && ( <Badge variant="secondary" className="ml-1">{t.stage}</Badge> )}
+                            <span className="ml-auto text-xs text-red-700 whitespace-nowrap">{late} day{late === 1 ? "" : "s"} late</span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
         <Card className="shadow-sm">
           <CardHeader className="pb-2">
             <CardTitle className="text-base flex items-center gap-2"><CheckCircle2 className="h-4 w-4"/> This week</CardTitle>
@@ -447,9 +1365,7 @@ export default function MarketingTracker() {
                     {t.type === "mail" && <Mail className="h-4 w-4"/>}
                     {t.type === "text" && <MessageSquare className="h-4 w-4"/>}
                     {t.type === "vm" && <Voicemail className="h-4 w-4"/>}
-                    {(t.type === "text" || t.type === "vm") && (
-                      <input type="checkbox" className="accent-sky-600" checked={doneKeys.includes(t.idKey)} onChange={()=> setDoneKeys(prev => prev.includes(t.idKey) ? prev.filter(k=>k!==t.idKey) : [...prev, t.idKey])} />
-                    )}
+                    {renderDoneControl(t)}
                     <span className="font-medium whitespace-nowrap">{format(t.date, "EEE, MMM d")}</span>
                     <span className="truncate">— {t.label}</span>
                     {t.stage && ( <Badge variant="secondary" className="ml-1">{t.stage}</Badge> )}
@@ -475,9 +1391,7 @@ export default function MarketingTracker() {
                     {t.type === "mail" && <Mail className="h-4 w-4"/>}
                     {t.type === "text" && <MessageSquare className="h-4 w-4"/>}
                     {t.type === "vm" && <Voicemail className="h-4 w-4"/>}
-                    {(t.type === "text" || t.type === "vm") && (
-                      <input type="checkbox" className="accent-sky-600" checked={doneKeys.includes(t.idKey)} onChange={()=> setDoneKeys(prev => prev.includes(t.idKey) ? prev.filter(k=>k!==t.idKey) : [...prev, t.idKey])} />
-                    )}
+                    {renderDoneControl(t)}
                     <span className="font-medium whitespace-nowrap">{format(t.date, "EEE, MMM d")}</span>
                     <span className="truncate">— {t.label}</span>
                     {t.stage && ( <Badge variant="secondary" className="ml-1">{t.stage}</Badge> )}
@@ -490,22 +1404,124 @@ export default function MarketingTracker() {
         </Card>
       </section>
 
+      {/* Completions that no longer match a task */}
+      {orphans.length > 0 && (
+        <section className="max-w-7xl mx-auto px-4 pb-2">
+          <Card className="shadow-sm border-amber-200">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2"><AlertTriangle className="h-4 w-4 text-amber-600"/> Orphaned completions ({orphans.length})</CardTitle>
+              <div className="text-sm text-slate-600 mt-1">These checkmarks don't match any task in the sheet any more — the row was removed or its campaign, part, batch or ID changed.</div>
+            </CardHeader>
+            <CardContent>
+              <ul className="text-sm space-y-1">
+                {orphans.map(key => {
+                  const c = completions[key] || {};
+                  return (
+                    <li key={key} className="flex items-center gap-2">
+                      <span className="truncate">{describeTaskKey(key)}</span>
+                      {c.user && <span className="text-xs text-slate-500 whitespace-nowrap">✓ {c.user}{c.at ? ` · ${format(new Date(c.at), "MMM d")}` : ""}</span>}
+                      <Button variant="ghost" size="sm" className="ml-auto" onClick={() => removeOrphan(key)}>Remove</Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+        </section>
+      )}
+
       {/* Month bar + target */}
       <section className="max-w-7xl mx-auto px-4 py-2 grid md:grid-cols-2 gap-4">
         <Card className="shadow-sm">
           <CardHeader className="pb-1">
-            <CardTitle className="text-base">{format(viewDate, "MMMM yyyy")} mail total</CardTitle>
+            <CardTitle className="text-base flex items-center gap-2">
+              {format(viewDate, "MMMM yyyy")} mail total
+              {filterActive && <Badge variant="secondary" title={rowFilter.category ? `Measured against the ${rowFilter.category} target where one is set` : "Target is for all rows"}>Filtered</Badge>}
+            </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="flex items-end gap-3">
               <div className="text-3xl font-semibold">{monthlyTotal.toLocaleString()}</div>
-              <div className="text-xs text-slate-500 pb-1">target 9k–10k</div>
-              <Badge variant={inTarget ? "default" : "destructive"} className="ml-auto">{inTarget ? "Within target" : (monthlyTotal < 9000 ? "Below" : "Above")}</Badge>
+              <div className="text-xs text-slate-500 pb-1">target {kfmt(targetMin)}–{kfmt(targetMax)}</div>
+              <Badge variant={inTarget ? "default" : "destructive"} className="ml-auto">{statusLabel(forecast.status)}</Badge>
             </div>
             <div className="mt-3">
               <Progress value={pct} />
             </div>
-            <div className="text-xs mt-2 text-slate-500">Mail counts only. Text/VM-only campaigns are excluded from this target by default.</div>
+            <div className="text-xs mt-2 text-slate-600">
+              Mailed {forecast.mailed.toLocaleString()} · still scheduled {forecast.scheduled.toLocaleString()} · projected month-end {forecast.projected.toLocaleString()}
+            </div>
+            <div className="text-xs mt-1 text-slate-600">
+              {forecast.needMin > 0 ? (
+                forecast.remainingDropDays.length > 0 ? (
+                  <>
+                    Schedule {forecast.needMin.toLocaleString()}–{forecast.headroom.toLocaleString()} more pieces to land in range:
+                    <ul className="mt-1 space-y-0.5">
+                      {forecast.remainingDropDays.map((d, i) => (
+                        <li key={i}>
+                          {format(d.date, "EEE, MMM d")} — +{d.addMin.toLocaleString()}–{d.addMax.toLocaleString()}
+                          {d.scheduled > 0 && <span className="text-slate-500"> (already {d.scheduled.toLocaleString()})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                ) : (
+                  <>Short by {forecast.needMin.toLocaleString()} pieces and no drop days are left this month.</>
+                )
+              ) : forecast.headroom < 0 ? (
+                <>Over the maximum by {(-forecast.headroom).toLocaleString()} pieces — move or trim a scheduled batch.</>
+              ) : (
+                <>In range; up to {forecast.headroom.toLocaleString()} more pieces fit this month.</>
+              )}
+            </div>
+            {forecast.byCategory.length > 0 && (
+              <table className="w-full text-xs mt-3">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-1 pr-2">Category</th>
+                    <th className="py-1 pr-2">Projected</th>
+                    <th className="py-1 pr-2">Target</th>
+                    <th className="py-1"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.byCategory.map((c) => (
+                    <tr key={c.category} className="border-b">
+                      <td className="py-1 pr-2">{c.category}</td>
+                      <td className="py-1 pr-2">{c.projected.toLocaleString()}</td>
+                      <td className="py-1 pr-2">
+                        {editingTargets ? (
+                          <span className="inline-flex items-center gap-1">
+                            <Input type="number" className="h-7 w-20 px-1 text-xs" value={c.target?.min ?? ""} placeholder="min" onChange={(e) => setCategoryTarget(c.category, { min: Number(e.target.value) || 0, max: c.target?.max ?? 0 })} />
+                            –
+                            <Input type="number" className="h-7 w-20 px-1 text-xs" value={c.target?.max ?? ""} placeholder="max" onChange={(e) => setCategoryTarget(c.category, { min: c.target?.min ?? 0, max: Number(e.target.value) || 0 })} />
+                            {c.target && <Button variant="ghost" size="sm" onClick={() => setCategoryTarget(c.category, null)}>×</Button>}
+                          </span>
+                        ) : c.target ? `${kfmt(c.target.min)}–${kfmt(c.target.max)}` : "—"}
+                      </td>
+                      <td className="py-1 text-right">
+                        {c.status && <Badge variant={c.status === "within" ? "default" : "destructive"}>{statusLabel(c.status)}{c.needMin > 0 ? ` · need ${c.needMin.toLocaleString()}` : ""}</Badge>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {editingTargets && (
+              <div className="mt-3 flex items-center gap-2 text-xs">
+                <span>{format(viewDate, "MMMM")} target</span>
+                <Input type="number" className="h-7 w-24 px-1 text-xs" value={targetMin} onChange={(e) => setMonthTarget({ ...forecast.target, min: Number(e.target.value) || 0 })} />
+                –
+                <Input type="number" className="h-7 w-24 px-1 text-xs" value={targetMax} onChange={(e) => setMonthTarget({ ...forecast.target, max: Number(e.target.value) || 0 })} />
+                {targets.months?.[forecast.monthKey] && <Button variant="ghost" size="sm" onClick={resetMonthTarget}>Reset to default</Button>}
+              </div>
+            )}
+            <div className="text-xs mt-2 text-slate-500 flex items-center gap-2">
+              <span>Mail counts only. Text/VM-only campaigns are excluded from this target by default.</span>
+              {filterActive
+                ? <span className="ml-auto">Clear filters to edit targets</span>
+                : <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setEditingTargets(v => !v)}>{editingTargets ? "Done" : "Edit targets"}</Button>}
+            </div>
           </CardContent>
         </Card>
 
@@ -522,12 +1538,359 @@ export default function MarketingTracker() {
         </Card>
       </section>
 
+      {/* Spend */}
+      {showSpend && (
+      <section className="max-w-7xl mx-auto px-4 pb-4">
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Spend — {format(viewDate, "MMMM yyyy")}</CardTitle>
+            {!hasCosts && <div className="text-sm text-slate-500 mt-1">No costs yet — fill in the Cost column (e.g. "$1,234.50") to track spend.</div>}
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-2 gap-6 text-sm">
+            <div>
+              <div className="flex items-end gap-3">
+                <div className="text-2xl font-semibold">{currency(budget.projected)}</div>
+                <div className="text-xs text-slate-500 pb-1">{budget.budget !== null ? `of ${currency(budget.budget)} budget` : "no budget set"}</div>
+                {budget.budget !== null && <Badge variant={budget.over > 0 ? "destructive" : "default"} className="ml-auto">{budget.over > 0 ? `Over by ${currency(budget.over)}` : `${currency(budget.budget - budget.projected)} left`}</Badge>}
+              </div>
+              {budget.budget !== null && <Progress value={budget.projected} max={budget.budget || 1} className="mt-2" />}
+              <div className="text-xs text-slate-600 mt-2">Spent {currency(budget.spent)} · scheduled {currency(budget.scheduled)}</div>
+              {budget.budget !== null && (
+                <div className="mt-3">
+                  <div className="text-xs text-slate-600 mb-1">Budget left by day (solid = spent, faded = scheduled)</div>
+                  <svg className="w-full h-16" viewBox={`0 0 ${budget.burnDown.length * 4} 40`} preserveAspectRatio="none">
+                    {budget.burnDown.map((p, i) => {
+                      const h = Math.round((Math.max(0, p.remaining) / (budget.budget || 1)) * 36);
+                      return <rect key={i} x={i * 4} y={38 - h} width={3} height={h} className={p.remaining < 0 ? "fill-red-500" : p.past ? "fill-sky-600" : "fill-sky-300"}><title>{format(p.date, "MMM d")}: {currency(p.remaining)} left</title></rect>;
+                    })}
+                  </svg>
+                </div>
+              )}
+              {budget.overBudgetDrops.length > 0 && (
+                <div className="mt-3 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800">
+                  <div className="font-medium mb-1 flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> These scheduled drops push {format(viewDate, "MMMM")} over budget</div>
+                  <ul className="space-y-0.5">
+                    {budget.overBudgetDrops.map((d, i) => <li key={i}>{format(d.date, "EEE, MMM d")} — {d.campaign}: {currency(d.cost)} (month total {currency(d.projectedAfter)})</li>)}
+                  </ul>
+                </div>
+              )}
+              <div className="mt-3 flex items-center gap-2 text-xs">
+                <span>{format(viewDate, "MMMM")} budget</span>
+                <Input type="number" className="h-7 w-28 px-1 text-xs" placeholder="none" value={budget.budget ?? ""} onChange={(e) => setMonthBudget(e.target.value === "" ? null : Number(e.target.value) || 0)} />
+                {budgets.months?.[budget.monthKey] !== undefined && <Button variant="ghost" size="sm" onClick={() => setBudgets(prev => { const months = { ...(prev.months || {}) }; delete months[budget.monthKey]; return { ...prev, months }; })}>Reset to default</Button>}
+              </div>
+              <table className="w-full mt-4">
+                <thead><tr className="text-left border-b text-xs text-slate-500"><th className="py-1 pr-2">Category</th><th className="py-1 pr-2">Spend</th><th className="py-1">Per piece</th></tr></thead>
+                <tbody>
+                  {spendCategories.map(c => (
+                    <tr key={c.key} className="border-b"><td className="py-1 pr-2">{c.key}</td><td className="py-1 pr-2">{currency(c.spend)}</td><td className="py-1">{c.perPiece !== null ? currency(c.perPiece) : "—"}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div>
+              <div className="text-xs text-slate-600 mb-1">Spend by month</div>
+              <table className="w-full">
+                <thead><tr className="text-left border-b text-xs text-slate-500"><th className="py-1 pr-2">Month</th><th className="py-1 pr-2">Spend</th><th className="py-1 pr-2">Pieces</th><th className="py-1">Per piece</th></tr></thead>
+                <tbody>
+                  {spendMonths.filter(m => m.spend).slice(-12).map(m => (
+                    <tr key={m.key} className={`border-b ${m.key === budget.monthKey ? "bg-sky-50" : ""}`}>
+                      <td className="py-1 pr-2">{format(new Date(`${m.key}-01T00:00:00`), "MMM yyyy")}</td>
+                      <td className="py-1 pr-2">{currency(m.spend)}</td>
+                      <td className="py-1 pr-2">{m.pieces.toLocaleString()}</td>
+                      <td className="py-1">{m.perPiece !== null ? currency(m.perPiece) : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="text-xs text-slate-600 mt-4 mb-1">Cost per piece by campaign and batch</div>
+              <table className="w-full">
+                <thead><tr className="text-left border-b text-xs text-slate-500"><th className="py-1 pr-2">Campaign / batch</th><th className="py-1 pr-2">Spend</th><th className="py-1">Per piece</th></tr></thead>
+                <tbody>
+                  {perPiece.byCampaign.map(c => (
+                    <React.Fragment key={c.key}>
+                      <tr className="border-b font-medium"><td className="py-1 pr-2">{c.key}</td><td className="py-1 pr-2">{currency(c.spend)}</td><td className="py-1">{c.perPiece !== null ? currency(c.perPiece) : "—"}</td></tr>
+                      {perPiece.byBatch.filter(b => b.key.startsWith(`${c.key} • `)).map(b => (
+                        <tr key={b.key} className="border-b text-slate-600"><td className="py-1 pr-2 pl-4">{b.key.slice(c.key.length + 3)}</td><td className="py-1 pr-2">{currency(b.spend)}</td><td className="py-1">{b.perPiece !== null ? currency(b.perPiece) : "—"}</td></tr>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </section>
+      )}
+
+      {/* Results / ROI */}
+      {showResults && (
+      <section className="max-w-7xl mx-auto px-4 pb-4">
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Results &amp; ROI</CardTitle>
+            <div className="text-sm text-slate-600 mt-1">
+              From Calls, Leads, Contracts and Revenue columns in the sheet, or a separate results sheet/CSV with Campaign, Part and Batch.
+              Rates only count batches that reported results.
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+              {resultsSource ? (
+                <>
+                  <span>Results import: <span className="font-medium">{resultsSource.url ? resultsSource.url : resultsSource.label}</span></span>
+                  {loads[RESULTS_ID]?.loading && <RefreshCw className="h-3 w-3 animate-spin" />}
+                  {loads[RESULTS_ID]?.error && <Badge variant="destructive" title={loads[RESULTS_ID].error.message}>{loads[RESULTS_ID].error.code}</Badge>}
+                  {importedResults && <span className="text-xs text-slate-500">{importedResults.byKey.size} campaign/part/batch rows</span>}
+                  <Button variant="ghost" size="sm" onClick={removeResults}>Remove</Button>
+                </>
+              ) : (
+                <>
+                  <Input className="h-8 w-80" placeholder="Results sheet link (optional)" value={resultsLink} onChange={(e) => setResultsLink(e.target.value)} />
+                  <Button variant="outline" size="sm" onClick={loadResultsLink}>Load</Button>
+                  <label className="inline-flex items-center gap-1 text-sm px-2 py-1 rounded-md border bg-white cursor-pointer">
+                    <Upload className="h-3 w-3" /> CSV
+                    <input type="file" accept=".csv" onChange={onResultsFile} className="hidden" />
+                  </label>
+                </>
+              )}
+            </div>
+            {importedResults?.missingCampaign && <div className="text-xs text-red-700 mt-1">The results import has no Campaign column, so nothing can be matched.</div>}
+            {(unmatchedResults.length > 0 || importedResults?.skipped.length > 0) && (
+              <div className="text-xs text-amber-800 mt-1">
+                {unmatchedResults.length > 0 && <div>No schedule row for: {unmatchedResults.map(u => `${u.key.split("::").filter(Boolean).join(" • ")}${u.line ? ` (row ${u.line})` : ""}`).join("; ")}</div>}
+                {importedResults?.skipped.map((sk, i) => <div key={i}>Row {sk.line}: {sk.message}</div>)}
+              </div>
+            )}
+          </CardHeader>
+          <CardContent>
+            {responseCampaigns.length === 0 ? (
+              <div className="text-sm text-slate-500">No results yet.</div>
+            ) : [["Campaign", responseCampaigns], ["Batch stage", responseStages]].map(([label, list]: [string, any[]]) => (
+              <div key={label} className="overflow-x-auto mb-4">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <th className="py-2 pr-4">{label}</th>
+                      <th className="py-2 pr-4">Pieces</th>
+                      <th className="py-2 pr-4">Calls</th>
+                      <th className="py-2 pr-4">Leads</th>
+                      <th className="py-2 pr-4">Contracts</th>
+                      <th className="py-2 pr-4">Revenue</th>
+                      <th className="py-2 pr-4">Cost</th>
+                      <th className="py-2 pr-4">Response rate</th>
+                      <th className="py-2 pr-4">Cost / lead</th>
+                      <th className="py-2 pr-4">ROI</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {list.map(s => (
+                      <tr key={s.key} className="border-b">
+                        <td className="py-2 pr-4">{s.key}</td>
+                        <td className="py-2 pr-4">{s.pieces.toLocaleString()}</td>
+                        <td className="py-2 pr-4">{s.calls.toLocaleString()}</td>
+                        <td className="py-2 pr-4">{s.leads.toLocaleString()}</td>
+                        <td className="py-2 pr-4">{s.contracts.toLocaleString()}</td>
+                        <td className="py-2 pr-4">{currency(s.revenue)}</td>
+                        <td className="py-2 pr-4">{currency(s.cost)}</td>
+                        <td className="py-2 pr-4">{percent(s.responseRate)}</td>
+                        <td className="py-2 pr-4">{s.costPerLead !== null ? currency(s.costPerLead) : "—"}</td>
+                        <td className={`py-2 pr-4 ${s.roi !== null && s.roi < 0 ? "text-red-700" : ""}`}>{percent(s.roi)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </section>
+      )}
+
+      {/* Planning drafts */}
+      {planning && (
+      <section className="max-w-7xl mx-auto px-4 pb-4">
+        <Card className="shadow-sm border-violet-300 border-dashed">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              Planning — draft batches
+              <Button variant="outline" size="sm" onClick={addDraftPlan}>Add campaign</Button>
+              {draftPlans.length > 0 && renderExportButtons(draftTable)}
+            </CardTitle>
+            <div className="text-xs text-slate-500 mt-1">Drafts are added on top of the sheet (violet, italic) until you paste them in. Export gives rows in the sheet's column order. Saved in this browser.</div>
+          </CardHeader>
+          <CardContent className="space-y-6 text-sm">
+            {draftPlans.length === 0 && <div className="text-slate-500">No drafts yet — add a campaign to split its list across upcoming {dropDayName}s.</div>}
+            {draftPlans.map(plan => {
+              const dates = draftDropDates(plan, dropWeekday, blocked);
+              const counts = draftCounts(plan);
+              const fits = monthFits(dates, counts, dropsWithout(plan.id), targets);
+              const planned = counts.reduce((sum, n) => sum + n, 0);
+              const empty = dates.map((_, i) => i).filter(i => !(counts[i] > 0));
+              const followUps = allTasks.filter(t => t.ref.raw.DraftPlan === plan.id && t.type !== "mail");
+              return (
+                <div key={plan.id} className="rounded-md border border-violet-200 p-3">
+                  <div className="flex flex-wrap items-end gap-2">
+                    {[["campaign", "Campaign", "w-40"], ["category", "Category", "w-20"], ["part", "Part", "w-24"]].map(([field, label, width]) => (
+                      <label key={field} className="flex flex-col text-xs text-slate-600">{label}
+                        <Input className={`${width} h-8`} value={plan[field]} onChange={(e) => updateDraftPlan(plan.id, { [field]: e.target.value })} />
+                      </label>
+                    ))}
+                    <label className="flex flex-col text-xs text-slate-600">Channels
+                      <select className="rounded-md border border-gray-300 px-2 h-8" value={plan.channels} onChange={(e) => updateDraftPlan(plan.id, { channels: e.target.value })}>
+                        <option value="Mail,Text,Voicemail">Mail + Text + VM</option>
+                        <option value="Mail">Mail only</option>
+                        <option value="Text,Voicemail,NoMail">Text + VM only</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col text-xs text-slate-600">List size
+                      <Input type="number" min={0} className="w-28 h-8" value={plan.total} onChange={(e) => updateDraftPlan(plan.id, { total: Math.max(0, Number(e.target.value) || 0) })} />
+                    </label>
+                    <label className="flex flex-col text-xs text-slate-600">Batches
+                      <Input type="number" min={1} max={20} className="w-20 h-8" value={plan.batches} onChange={(e) => updateDraftPlan(plan.id, { batches: Math.min(20, Math.max(1, Number(e.target.value) || 1)) })} />
+                    </label>
+                    <label className="flex flex-col text-xs text-slate-600">First drop from
+                      <input type="date" className="rounded-md border border-gray-300 px-2 h-8" value={plan.start} onChange={(e) => updateDraftPlan(plan.id, { start: e.target.value })} />
+                    </label>
+                    <Button variant="outline" size="sm" onClick={() => suggestDraftSplit(plan)} title="Split so each month stays within its target">Suggest split</Button>
+                    <Button variant="ghost" size="sm" onClick={() => updateDraftPlan(plan.id, { counts: splitEvenly(plan.total, plan.batches) })}>Even split</Button>
+                    <Button variant="ghost" size="sm" className="ml-auto" onClick={() => removeDraftPlan(plan.id)}>Remove</Button>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-4 mt-3">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b text-xs text-slate-500">
+                          <th className="py-1 pr-2">Batch</th>
+                          <th className="py-1 pr-2">Drop</th>
+                          <th className="py-1 pr-2">Pieces</th>
+                          <th className="py-1">Follow-ups</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {dates.map((date, i) => (
+                          <tr key={i} className="border-b italic text-violet-800">
+                            <td className="py-1 pr-2">B{i + 1}</td>
+                            <td className="py-1 pr-2 whitespace-nowrap">{format(date, "EEE, MMM d")}</td>
+                            <td className="py-1 pr-2">
+                              <Input type="number" min={0} className="w-24 h-7" value={counts[i] ?? 0} onChange={(e) => setDraftCount(plan, i, e.target.value)} />
+                            </td>
+                            <td className="py-1 text-xs whitespace-nowrap">
+                              {followUps.filter(t => t.ref.batch === `B${i + 1}`).map(t => `${t.type === "text" ? "Text" : "VM"} ${format(t.date, "MMM d")}`).join(" · ")}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div>
+                      {planned !== plan.total && <div className="text-xs text-amber-700 mb-2">Batches add up to {planned.toLocaleString()} of {plan.total.toLocaleString()}.</div>}
+                      {empty.length > 0 && <div className="text-xs text-amber-700 mb-2">{empty.map(i => `B${i + 1}`).join(", ")} {empty.length === 1 ? "has" : "have"} no pieces and {empty.length === 1 ? "is" : "are"} left out of the schedule and export.</div>}
+                      <ul className="space-y-1">
+                        {fits.map(f => (
+                          <li key={f.monthKey} className="flex items-center gap-2">
+                            <span className="w-20">{format(new Date(`${f.monthKey}-01T00:00:00`), "MMM yyyy")}</span>
+                            <span className="text-slate-600">{f.existing.toLocaleString()} + <span className="italic text-violet-800">{f.added.toLocaleString()}</span> = {(f.existing + f.added).toLocaleString()}</span>
+                            <Badge variant={f.status === "within" ? "success" : "destructive"} className="ml-auto">
+                              {f.status === "within" ? "In range" : f.status === "below" ? `${(f.min - f.existing - f.added).toLocaleString()} short` : `${(f.existing + f.added - f.max).toLocaleString()} over`}
+                            </Badge>
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="text-xs text-slate-500 mt-1">Target {fits.map(f => `${f.monthKey}: ${f.min.toLocaleString()}–${f.max.toLocaleString()}`).join(" · ")}</div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </section>
+      )}
+
+      {/* Capacity conflicts */}
+      {showCapacity && (
+      <section className="max-w-7xl mx-auto px-4 pb-4">
+        <Card className="shadow-sm">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2"><AlertTriangle className="h-4 w-4"/> Capacity</CardTitle>
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+              {[["piecesPerWeek", "Pieces / week"], ["textsPerDay", "Texts / day"], ["voicemailsPerDay", "Voicemails / day"], ["campaignsPerDrop", "Campaigns / drop"]].map(([kind, label]) => (
+                <label key={kind} className="inline-flex items-center gap-1">
+                  <span className="text-slate-600">{label}</span>
+                  <Input type="number" min={0} className="w-24 h-8" placeholder="No limit" value={capacityLimits[kind] ?? ""} onChange={(e) => setCapacityLimit(kind, e.target.value)} />
+                </label>
+              ))}
+            </div>
+            <div className="text-xs text-slate-500 mt-1">Checked against every scheduled task, whatever the filters; saved in this browser.</div>
+          </CardHeader>
+          <CardContent className="text-sm">
+            {upcomingConflicts.length === 0 ? (
+              <div className="text-slate-500">No upcoming conflicts.</div>
+            ) : (
+              <ul className="space-y-3">
+                {upcomingConflicts.map((c, i) => (
+                  <li key={i}>
+                    <div className="font-medium text-red-700">{c.message}</div>
+                    <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                      {c.tasks.map(t => (
+                        <li key={t.idKey} className="flex gap-2">
+                          <span className="whitespace-nowrap">{format(t.date, "EEE, MMM d")}</span>
+                          <span className="truncate">{t.label}</span>
+                          <span className="ml-auto whitespace-nowrap">{(t.count || 0).toLocaleString()}</span>
+                          <span className="whitespace-nowrap text-slate-400">{t.ref.source ? `${t.ref.source} ` : ""}row {t.ref.line}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </section>
+      )}
+
       {/* Calendar */}
       {showCalendar && (
       <section className="max-w-7xl mx-auto px-4 pb-4">
         <Card className="shadow-sm">
           <CardHeader className="pb-2">
-            <CardTitle className="text-base flex items-center gap-2"><CalendarDays className="h-4 w-4"/> Calendar</CardTitle>
+            <CardTitle className="text-base flex items-center gap-2">
+              <CalendarDays className="h-4 w-4"/> Calendar
+              <span className="inline-flex gap-1 ml-4">
+                {CALENDAR_VIEWS.map(v => (
+                  <Button key={v} variant={calendarView === v ? "default" : "outline"} size="sm" onClick={() => setCalendarView(v)}>{v[0].toUpperCase() + v.slice(1)}</Button>
+                ))}
+              </span>
+              {calendarView === "week" && (
+                <span className="inline-flex items-center gap-1 ml-auto text-sm font-normal">
+                  <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, -7))}>Prev</Button>
+                  <span className="px-2 whitespace-nowrap">{format(weekStart, "MMM d")} – {format(addDays(weekStart, 6), "MMM d, yyyy")}</span>
+                  <Button variant="outline" size="sm" onClick={() => setWeekStart(addDays(weekStart, 7))}>Next</Button>
+                  <Button variant="ghost" size="sm" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>This week</Button>
+                </span>
+              )}
+              {calendarView === "agenda" && (
+                <span className="inline-flex items-center gap-1 ml-auto text-sm font-normal">
+                  <input type="date" className="rounded-md border border-gray-300 px-2 py-0.5" value={format(agendaFrom, "yyyy-MM-dd")} onChange={(e) => e.target.value && setAgendaFrom(new Date(`${e.target.value}T00:00:00`))} />
+                  <span>to</span>
+                  <input type="date" className="rounded-md border border-gray-300 px-2 py-0.5" value={format(agendaTo, "yyyy-MM-dd")} onChange={(e) => e.target.value && setAgendaTo(new Date(`${e.target.value}T00:00:00`))} />
+                </span>
+              )}
+            </CardTitle>
+            <div className="mt-2 flex flex-wrap items-center gap-3 text-sm">
+              <span className="text-slate-600">Export / feed:</span>
+              {[["mail", "Mail"], ["text", "Text"], ["vm", "VM"]].map(([ch, name]) => (
+                <label key={ch} className="inline-flex items-center gap-1">
+                  <input type="checkbox" className="accent-sky-600" checked={!calendarFilter.channels.length || calendarFilter.channels.includes(ch)}
+                    onChange={() => toggleCalendarChannel(ch)} />
+                  {name}
+                </label>
+              ))}
+              <select className="rounded-md border border-gray-300 px-2 py-0.5" value={calendarFilter.category} onChange={(e) => setCalendarFilter(prev => ({ ...prev, category: e.target.value }))}>
+                <option value="">All categories</option>
+                {filterChoices.categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <Button variant="outline" size="sm" onClick={downloadIcs}>Download .ics</Button>
+              <Button variant="outline" size="sm" onClick={copyFeedUrl} title={sources.some(src => !src.url) ? "Uploaded files aren't part of the feed" : "Subscribe from Google Calendar or Outlook"}>Copy feed link</Button>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="mb-3">
@@ -546,6 +1909,8 @@ export default function MarketingTracker() {
                 })}
               </svg>
             </div>
+            {calendarView === "month" && (
+            <>
             <div className="grid grid-cols-7 text-xs font-medium text-slate-500 mb-2">
               {["Mon","Tue","Wed","Thu","Fri","Sat","Sun"].map(d => <div key={d} className="px-2 py-1">{d}</div>)}
             </div>
@@ -555,27 +1920,170 @@ export default function MarketingTracker() {
                 const isToday = isSameDay(date, today);
                 const isCurrWeek = isWithinInterval(date, thisWeek);
                 return (
-                  <div key={idx} className={`rounded-2xl p-2 min-h-[84px] border ${dim ? "bg-white" : "bg-white"} ${isCurrWeek ? "ring-2 ring-sky-400" : ""} ${isToday ? "shadow" : ""}`}>
+                  <div key={idx} className={`rounded-2xl p-2 min-h-[84px] border cursor-pointer ${dayCellClass(date)} ${isCurrWeek ? "ring-2 ring-sky-400" : ""} ${isToday ? "shadow" : ""}`}
+                    title={dayCellTitle(date)} onClick={() => openDay(date)} onDragOver={onDayDragOver} onDrop={(e) => onDayDrop(e, date)}>
                     <div className="flex items-center justify-between">
                       <div className={`text-xs ${dim?"text-slate-300":"text-slate-700"}`}>{format(date, "d")}</div>
                       {isToday && <Badge className="text-[10px]" variant="secondary">Today</Badge>}
                     </div>
+                    {renderDayFlags(date, dim)}
                     <div className="mt-1 space-y-1">
-                      {dayTasks.slice(0,3).map((t,i)=> (
-                        <div key={i} className="flex items-center gap-1 text-[11px] truncate">
-                          {t.type === "mail" && <Mail className="h-3 w-3"/>}
-                          {t.type === "text" && <MessageSquare className="h-3 w-3"/>}
-                          {t.type === "vm" && <Voicemail className="h-3 w-3"/>}
-                          <span className="truncate">{t.ref.campaign}{t.ref.part ? " • " + t.ref.part : ""}{t.ref.batch ? " • " + t.ref.batch : ""}</span>
-                          {t.type === "mail" && !!t.ref.count && <span className="ml-auto text-slate-500">{t.ref.count.toLocaleString()}</span>}
-                        </div>
-                      ))}
-                      {dayTasks.length>3 && <div className="text-[11px] text-slate-500">+{dayTasks.length-3} more…</div>}
+                      {dayTasks.slice(0,3).map((t,i)=> renderTaskChip(t, i))}
+                      {dayTasks.length>3 && <button type="button" className="text-[11px] text-sky-700 hover:underline" onClick={(e) => { e.stopPropagation(); openDay(date); }}>+{dayTasks.length-3} more…</button>}
                     </div>
                   </div>
                 );
               })}
             </div>
+            </>
+            )}
+            {calendarView === "week" && (
+            <div className="grid md:grid-cols-7 gap-2">
+              {weekDays.map(({ date, tasks: dayTasks }) => (
+                <div key={date.getTime()} className={`rounded-2xl p-2 min-h-[160px] border cursor-pointer ${dayCellClass(date)} ${isSameDay(date, today) ? "ring-2 ring-sky-400" : ""}`}
+                  title={dayCellTitle(date)} onClick={() => openDay(date)} onDragOver={onDayDragOver} onDrop={(e) => onDayDrop(e, date)}>
+                  <div className="text-xs font-medium text-slate-700">{format(date, "EEE d")}</div>
+                  {renderDayFlags(date, false)}
+                  <div className="mt-1 space-y-1">
+                    {dayTasks.length === 0 && <div className="text-[11px] text-slate-400">Nothing scheduled</div>}
+                    {dayTasks.map((t, i) => renderTaskChip(t, i))}
+                  </div>
+                  {dayTasks.some(t => t.type === "mail") && (
+                    <div className="mt-2 text-[11px] text-slate-500">{dayTasks.filter(t => t.type === "mail").reduce((sum, t) => sum + (t.count || 0), 0).toLocaleString()} pieces</div>
+                  )}
+                </div>
+              ))}
+            </div>
+            )}
+            {calendarView === "agenda" && (
+            <div>
+              {agendaDays.length === 0 && <div className="text-sm text-slate-500">Nothing scheduled between {format(agendaFrom, "MMM d")} and {format(agendaTo, "MMM d")}.</div>}
+              <ul className="space-y-3">
+                {agendaDays.map(({ date, tasks: dayTasks }) => (
+                  <li key={date.getTime()}>
+                    <button type="button" className="text-sm font-medium hover:underline" onClick={() => openDay(date)}>{format(date, "EEEE, MMM d")}</button>
+                    {renderDayFlags(date, false)}
+                    <ul className="mt-1 space-y-1 text-sm">
+                      {dayTasks.map((t, i) => (
+                        <li key={i} className={`flex items-center gap-2 ${isDraft(t.ref) ? "italic text-violet-700" : ""}`}>
+                          {renderTaskIcon(t, "h-4 w-4")}
+                          {renderDoneControl(t)}
+                          <span className="truncate">{t.label}</span>
+                          {t.stage && <Badge variant="secondary">{t.stage}</Badge>}
+                          {!!t.count && <span className="ml-auto text-slate-500 whitespace-nowrap">{t.count.toLocaleString()}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            )}
+
+            {/* Drag-and-drop move preview */}
+            {pendingMove && pendingPreview && (
+              <div className="mt-4 rounded-md border border-sky-300 bg-sky-50 px-3 py-2 text-sm">
+                <div className="font-medium">
+                  Move {pendingMove.label} from {format(new Date(`${pendingMove.from}T00:00:00`), "EEE, MMM d")} to {format(new Date(`${pendingMove.to}T00:00:00`), "EEE, MMM d")}?
+                </div>
+                <div className="text-xs text-slate-600 mb-2">The sheet stores one date per row, so the mail drop and every follow-up of the row move together.</div>
+                <div className="grid md:grid-cols-2 gap-4">
+                  <ul className="space-y-1">
+                    {pendingPreview.months.map(m => (
+                      <li key={m.monthKey}>
+                        {format(new Date(`${m.monthKey}-01T00:00:00`), "MMMM yyyy")}: {m.before.toLocaleString()} → <span className="font-medium">{m.after.toLocaleString()}</span> pieces
+                        {(() => { const st = targetStatus(m.after, targetForMonth(targets, m.monthKey)); return st && st !== "within" ? <Badge variant="destructive" className="ml-2">{st === "below" ? "Below target" : "Over target"}</Badge> : null; })()}
+                      </li>
+                    ))}
+                  </ul>
+                  <table className="text-xs">
+                    <tbody>
+                      {pendingPreview.after.map((t, i) => (
+                        <tr key={t.idKey}>
+                          <td className="pr-3">{t.label.split(" • ")[0]}</td>
+                          <td className="pr-3 text-slate-500">{pendingPreview.before[i] ? format(pendingPreview.before[i].date, "EEE, MMM d") : ""}</td>
+                          <td className="pr-3">→ {format(t.date, "EEE, MMM d")}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex gap-2 mt-2">
+                  <Button size="sm" onClick={confirmMove}>Move</Button>
+                  <Button variant="outline" size="sm" onClick={() => setPendingMove(null)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+
+            {/* Pending date changes */}
+            {dateChanges.length > 0 && (
+              <div className="mt-4 rounded-md border bg-white px-3 py-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <button type="button" className="font-medium hover:underline" onClick={() => setShowChangeLog(v => !v)}>
+                    Pending date changes ({dateChanges.length})
+                  </button>
+                  <span className="text-xs text-slate-500">Not in the sheet yet — export and paste into "Red - Adjusted Dates".</span>
+                  <span className="ml-auto inline-flex gap-1">
+                    <Button variant="outline" size="sm" onClick={() => undoMove(dateChanges.length - 1)}>Undo last</Button>
+                    <Button variant="outline" size="sm" onClick={() => { const table = changeSet(); downloadBlob(exportBlob(table, "csv"), exportFileName(table, "csv")); }}>Export CSV</Button>
+                    <Button variant="ghost" size="sm" onClick={() => { if (window.confirm("Discard every pending date change?")) setDateChanges([]); }}>Discard all</Button>
+                  </span>
+                </div>
+                {showChangeLog && (
+                  <ul className="mt-2 space-y-1">
+                    {dateChanges.map((c, i) => (
+                      <li key={i} className="flex items-center gap-2">
+                        <span className="truncate">{c.label}</span>
+                        <span className="text-slate-500 whitespace-nowrap">{format(new Date(`${c.from}T00:00:00`), "MMM d")} → {format(new Date(`${c.to}T00:00:00`), "MMM d")}</span>
+                        <span className="text-xs text-slate-400 whitespace-nowrap">{format(new Date(c.at), "MMM d, p")}</span>
+                        <Button variant="ghost" size="sm" className="ml-auto" onClick={() => undoMove(i)}>Undo</Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Day detail */}
+            {selectedDay && (
+              <div className="mt-4 rounded-md border bg-white px-3 py-2 text-sm">
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="font-medium">{format(selectedDay, "EEEE, MMMM d, yyyy")}</span>
+                  {renderDayFlags(selectedDay, false)}
+                  <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelectedDay(null)}>Close</Button>
+                </div>
+                {selectedDayTasks.length === 0 ? <div className="text-slate-500">Nothing scheduled.</div> : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left border-b text-xs text-slate-500">
+                        <th className="py-1 pr-3">Task</th>
+                        <th className="py-1 pr-3">Count</th>
+                        <th className="py-1 pr-3">Stage</th>
+                        <th className="py-1 pr-3">Channels</th>
+                        <th className="py-1">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {selectedDayTasks.map(t => (
+                        <tr key={t.idKey} className={`border-b align-top ${t.idKey === selectedTaskKey ? "bg-sky-50" : ""} ${isDraft(t.ref) ? "italic text-violet-800" : ""}`}>
+                          <td className="py-1 pr-3">
+                            <div className="flex items-center gap-2">{renderTaskIcon(t, "h-4 w-4")}<span>{t.label}</span></div>
+                            <div className="text-xs text-slate-500">
+                              {[t.ref.category, t.ref.source && `${t.ref.source} row ${t.ref.line}`].filter(Boolean).join(" · ")}
+                              {t.originalDate && ` · moved from ${format(t.originalDate, "MMM d")} (${t.blockedReason})`}
+                            </div>
+                          </td>
+                          <td className="py-1 pr-3">{(t.count || 0).toLocaleString()}</td>
+                          <td className="py-1 pr-3">{t.stage || stageForBatch(t.ref.batchNum)}</td>
+                          <td className="py-1 pr-3 whitespace-nowrap">{[t.ref.hasMail && "Mail", t.ref.hasText && "Text", t.ref.hasVM && "VM"].filter(Boolean).join(", ")}</td>
+                          <td className="py-1"><div className="flex flex-wrap items-center gap-2">{renderDoneControl(t)}</div></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       </section>
@@ -586,7 +2094,7 @@ export default function MarketingTracker() {
       <section className="max-w-7xl mx-auto px-4 pb-4">
         <Card className="shadow-sm">
           <CardHeader className="pb-2">
-            <CardTitle className="text-base">Weekly Mail Count — {format(viewDate, "MMMM yyyy")}</CardTitle>
+            <CardTitle className="text-base flex items-center gap-2">Weekly Mail Count — {format(viewDate, "MMMM yyyy")}{renderExportButtons(weeklyTable)}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="overflow-x-auto">
@@ -598,12 +2106,18 @@ export default function MarketingTracker() {
                   </tr>
                 </thead>
                 <tbody>
-                  {weeksForMonth.map((w, i) => (
-                    <tr key={i} className={`border-b ${isWithinInterval(w.start, thisWeek) ? "bg-sky-50" : ""}`}>
-                      <td className="py-2 pr-4">{format(w.start, "MMM d")} – {format(w.end, "MMM d")}</td>
-                      <td className="py-2 font-medium">{w.total.toLocaleString()}</td>
-                    </tr>
-                  ))}
+                  {weeksForMonth.map((w, i) => {
+                    const over = conflicts.find(c => c.kind === "piecesPerWeek" && isSameDay(c.start, w.start));
+                    return (
+                      <tr key={i} className={`border-b ${over ? "bg-red-50" : isWithinInterval(w.start, thisWeek) ? "bg-sky-50" : ""}`}>
+                        <td className="py-2 pr-4">{format(w.start, "MMM d")} – {format(w.end, "MMM d")}</td>
+                        <td className="py-2 font-medium">
+                          {w.total.toLocaleString()}
+                          {over && <Badge variant="destructive" className="ml-2" title={over.message}>{filterActive ? `${over.actual.toLocaleString()} in all · ` : ""}over {over.limit.toLocaleString()} limit</Badge>}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
@@ -617,7 +2131,7 @@ export default function MarketingTracker() {
       <section className="max-w-7xl mx-auto px-4 pb-10">
         <Card className="shadow-sm">
           <CardHeader className="pb-2">
-            <CardTitle className="text-base flex items-center gap-2"><Filter className="h-4 w-4"/> Campaign schedule</CardTitle>
+            <CardTitle className="text-base flex items-center gap-2"><Filter className="h-4 w-4"/> Campaign schedule{renderExportButtons(scheduleTable)}</CardTitle>
             <div className="text-sm text-slate-600 mt-1">{hidePast ? "Showing upcoming only" : "Showing all (past + upcoming)"}</div>
             <div className="mt-2 flex flex-wrap gap-3 text-sm">
               <label className="inline-flex items-center gap-2">
@@ -629,8 +2143,18 @@ export default function MarketingTracker() {
                 Show county column
               </label>
               <label className="inline-flex items-center gap-2">
-                <input type="checkbox" className="accent-sky-600" checked={hideCompleted} onChange={(e)=>setHideCompleted(e.target.checked)} />
-                Hide completed (Text/VM done)
+                Status
+                <select className="rounded-md border border-gray-300 px-2 py-0.5" value={statusFilter} onChange={(e)=>setStatusFilter(e.target.value)}>
+                  <option value="all">All</option>
+                  <option value="open">Open (Text/VM not sent or skipped)</option>
+                  <option value="none">Not started</option>
+                  <optgroup label="Mail">
+                    {MAIL_STATUSES.map(st => <option key={st} value={st}>{STATUS_META[st].label}</option>)}
+                  </optgroup>
+                  <optgroup label="Text/VM">
+                    {FOLLOW_UP_STATUSES.map(st => <option key={st} value={st}>{STATUS_META[st].label}</option>)}
+                  </optgroup>
+                </select>
               </label>
               <label className="inline-flex items-center gap-2">
                 <input type="checkbox" className="accent-sky-600" checked={hidePast} onChange={(e)=>setHidePast(e.target.checked)} />
@@ -646,6 +2170,7 @@ export default function MarketingTracker() {
                     <th className="py-2 pr-4">Date</th>
                     <th className="py-2 pr-4">Campaign + Part</th>
                     <th className="py-2 pr-4">Batch</th>
+                    {showSourceColumn && <th className="py-2 pr-4">Source</th>}
                     {showCounty && <th className="py-2 pr-4">County</th>}
                     <th className="py-2 pr-4">Mail?</th>
                     <th className="py-2 pr-4">Text/VM On</th>
@@ -654,39 +2179,41 @@ export default function MarketingTracker() {
                   </tr>
                 </thead>
                 <tbody>
-                  {data
-                    .slice()
-                    .sort((a,b)=>a.mailDate-b.mailDate)
-                    .filter(r => !hidePast || r.mailDate >= startToday)
-                    .filter(r => {
-                      if (!hideCompleted) return true;
-                      const follow = r.hasMail ? addDays(r.mailDate,13) : r.mailDate;
-                      const tKey = 'text|' + format(follow,'yyyy-MM-dd') + '|' + r.campaign + '|' + r.part + '|' + r.batch;
-                      const vKey = 'vm|' + format(follow,'yyyy-MM-dd') + '|' + r.campaign + '|' + r.part + '|' + r.batch;
-                      const tDone = !r.hasText || doneKeys.includes(tKey);
-                      const vDone = !r.hasVM || doneKeys.includes(vKey);
-                      return !(tDone && vDone);
-                    })
-                    .map((r, i) => {
-                      const follow = r.hasMail ? addDays(r.mailDate,13) : r.mailDate;
+                  {scheduleRows.map((r, i) => {
+                      const followUps = followUpsByRow.get(r.id) || [];
                       const wk = classifyWeek(r.mailDate);
                       let rowColor = wk==='this' ? 'bg-yellow-50' : wk==='next' ? 'bg-green-50' : wk==='next2' ? 'bg-blue-50' : '';
                       if (!r.hasMail) rowColor = 'bg-red-50';
-                      // Compose Campaign + Part name
-                      let name = String(r.campaign||'').replace(/\s*-\s*/g,' ').trim();
-                      const partStr = String(r.part||'');
-                      let letter = '';
-                      for (let k=0; k<partStr.length; k++) { const ch = partStr[k].toUpperCase(); if (ch>='A' && ch<='Z') { letter = ch; break; } }
-                      if (letter && !new RegExp('\\b'+letter+'\\b','i').test(name)) name += ' ' + letter;
+                      if (isDraft(r)) rowColor = 'bg-violet-50 italic text-violet-800';
+                      const name = campaignPartName(r);
                       const batchNum = r.batchNum ?? '';
                       return (
                         <tr key={i} className={"border-b " + rowColor}>
-                          <td className="py-2 pr-4 whitespace-nowrap">{format(r.mailDate, "EEE, MMM d, yyyy")}</td>
-                          <td className="py-2 pr-4">{name}</td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            {format(r.mailDate, "EEE, MMM d, yyyy")}
+                            {mailIssues.has(r.id) && <Badge variant="warning" className="ml-2" title={mailIssues.get(r.id).join(" · ")}>{mailIssues.get(r.id)[0]}</Badge>}
+                          </td>
+                          <td className="py-2 pr-4">{name}{isDraft(r) && <Badge variant="secondary" className="ml-2 not-italic">Draft</Badge>}</td>
                           <td className="py-2 pr-4">{batchNum}</td>
+                          {showSourceColumn && <td className="py-2 pr-4 text-xs text-slate-500">{r.source}</td>}
                           {showCounty && <td className="py-2 pr-4">{r.raw.County || ''}</td>}
-                          <td className="py-2 pr-4">{r.hasMail ? <Badge>Mail</Badge> : <Badge variant="destructive">No Mail</Badge>}</td>
-                          <td className="py-2 pr-4 whitespace-nowrap"><div className="flex items-center gap-2"><span>{format(follow, "EEE, MMM d")}</span>{r.hasText && <MessageSquare className="h-3 w-3" />}{r.hasVM && <Voicemail className="h-3 w-3" />}</div></td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            {r.hasMail ? (statusOf(mailTaskByRow.get(r.id)) ? renderStatusBadge(mailTaskByRow.get(r.id)) : <Badge>Mail</Badge>) : <Badge variant="destructive">No Mail</Badge>}
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            <div className="flex flex-col gap-1">
+                              {followUps.map((t, k) => (
+                                <div key={k} className="flex items-center gap-2">
+                                  <span>{format(t.date, "EEE, MMM d")}</span>
+                                  {t.type === "text" ? <MessageSquare className="h-3 w-3" /> : <Voicemail className="h-3 w-3" />}
+                                  {t.originalDate && <span className="text-xs text-slate-500" title={t.blockedReason}>moved from {format(t.originalDate, "MMM d")}</span>}
+                                  {!t.originalDate && t.blockedReason && <Badge variant="warning" title="On a blocked day">{t.blockedReason}</Badge>}
+                                  {t.touch > 1 && <span className="text-xs text-slate-500">#{t.touch}</span>}
+                                  {renderStatusBadge(t)}
+                                </div>
+                              ))}
+                            </div>
+                          </td>
                           <td className="py-2 pr-4">{r.hasMail ? r.count.toLocaleString() : ''}</td>
                           {showCosts && <td className="py-2 pr-4">{r.hasMail ? currency(r.cost) : ''}</td>}
                         </tr>
@@ -705,7 +2232,7 @@ export default function MarketingTracker() {
       <section className="max-w-7xl mx-auto px-4 pb-8">
         <Card className="shadow-sm">
           <CardHeader className="pb-2">
-            <CardTitle className="text-base">Cadence matrix (first 5 batches by campaign & part)</CardTitle>
+            <CardTitle className="text-base flex items-center gap-2">Cadence matrix (first 5 batches by campaign & part){renderExportButtons(cadenceTable)}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="overflow-x-auto">
@@ -723,36 +2250,17 @@ export default function MarketingTracker() {
                 </thead>
                 <tbody>
                   {(() => {
-                    const groups = new Map();
-                    for (const r of data) { let base = String(r.campaign || '').trim();
-                      const idx = base.lastIndexOf(' - ');
-                      if (idx > -1 && idx + 3 <= base.length) {
-                        const suf = base.slice(idx + 3).trim();
-                        const C = suf.toUpperCase();
-                        if (suf.length === 1 && C >= 'A' && C <= 'Z') base = base.slice(0, idx);
-                      }
-                      let letter = '';
-                      const p = String(r.part || '');
-                      for (let i = 0; i < p.length; i++) { const ch = p[i].toUpperCase(); if (ch >= 'A' && ch <= 'Z') { letter = ch; break; } }
-                      const key = letter ? (base + ' - ' + letter) : base;
-                      if (!groups.has(key)) groups.set(key, []);
-                      groups.get(key).push(r);
-                    }
-                    const rows = Array.from(groups.entries()).map(([key, arr]) => {
-                      const sorted = arr.slice().sort((a,b)=>a.mailDate-b.mailDate);
-                      const dates = sorted.map(x=>format(x.mailDate, "M/d/yyyy"));
-                      const total = sorted.reduce((s,x)=>s+(x.count||0),0);
-                      return { key, total, d1: dates[0]||"", d2: dates[1]||"", d3: dates[2]||"", d4: dates[3]||"", d5: dates[4]||"" };
-                    }).sort((a,b)=>a.key.localeCompare(b.key));
+                    const rows = cadenceRows;
                     return rows.map((row,i)=> (
                       <tr key={i} className="border-b">
                         <td className="py-2 pr-4">{row.key}</td>
                         <td className="py-2 pr-4">{row.total.toLocaleString()}</td>
-                        <td className="py-2 pr-4">{row.d1 ? (<span className={'px-1 rounded ' + (function(){ const d = tryParseDate(row.d1) || new Date(0); const wk = classifyWeek(d); return wk==='this'?'bg-yellow-100':(wk==='next'?'bg-green-100':(wk==='next2'?'bg-blue-100':'')); })()}>{row.d1}</span>) : ''}</td>
-                        <td className="py-2 pr-4">{row.d2 ? (<span className={'px-1 rounded ' + (function(){ const d = tryParseDate(row.d2) || new Date(0); const wk = classifyWeek(d); return wk==='this'?'bg-yellow-100':(wk==='next'?'bg-green-100':(wk==='next2'?'bg-blue-100':'')); })()}>{row.d2}</span>) : ''}</td>
-                        <td className="py-2 pr-4">{row.d3 ? (<span className={'px-1 rounded ' + (function(){ const d = tryParseDate(row.d3) || new Date(0); const wk = classifyWeek(d); return wk==='this'?'bg-yellow-100':(wk==='next'?'bg-green-100':(wk==='next2'?'bg-blue-100':'')); })()}>{row.d3}</span>) : ''}</td>
-                        <td className="py-2 pr-4">{row.d4 ? (<span className={'px-1 rounded ' + (function(){ const d = tryParseDate(row.d4) || new Date(0); const wk = classifyWeek(d); return wk==='this'?'bg-yellow-100':(wk==='next'?'bg-green-100':(wk==='next2'?'bg-blue-100':'')); })()}>{row.d4}</span>) : ''}</td>
-                        <td className="py-2 pr-4">{row.d5 ? (<span className={'px-1 rounded ' + (function(){ const d = tryParseDate(row.d5) || new Date(0); const wk = classifyWeek(d); return wk==='this'?'bg-yellow-100':(wk==='next'?'bg-green-100':(wk==='next2'?'bg-blue-100':'')); })()}>{row.d5}</span>) : ''}</td>
+                        {[row.d1, row.d2, row.d3, row.d4, row.d5].map((d, k) => (
+                          <td key={k} className="py-2 pr-4 whitespace-nowrap">{d ? (<>
+                            <span className={'px-1 rounded ' + (function(){ const wk = classifyWeek(tryParseDate(d) || new Date(0)); return wk==='this'?'bg-yellow-100':(wk==='next'?'bg-green-100':(wk==='next2'?'bg-blue-100':'')); })()}>{d}</span>
+                            {row.mail[k] && statusOf(row.mail[k]) && <span className="ml-1">{renderStatusBadge(row.mail[k], { withDate: false })}</span>}
+                          </>) : ''}</td>
+                        ))}
                       </tr>
                     ));
                   })()}
@@ -764,7 +2272,44 @@ export default function MarketingTracker() {
       </section>
       )}
 
-      <footer className="text-center text-xs text-slate-500 pb-8">Built for CGM Land — mail every Tuesday, text & voicemail +13 days. ✉️💬🎙️</footer>
+      <footer className="text-center text-xs text-slate-500 pb-8">Built for CGM Land — mail every {dropDayName}; follow-ups: {CADENCE_RULES.map(rule => `${rule.name} (${describeCadence(rule)})`).join(" · ")}. ✉️💬🎙️</footer>
+    </div>
+  );
+}
+
+// ================================================================
+// Column mapping dialog
+// ================================================================
+function ColumnMappingDialog({ title, fields, mapping, onSave, onClose }) {
+  const [draft, setDraft] = useState(mapping);
+  const missing = REQUIRED_COLUMNS.filter(c => !draft[c]);
+  const save = () => onSave(Object.fromEntries(Object.entries(draft).filter(([, header]) => header)));
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30 p-4">
+      <Card className="w-full max-w-lg shadow-lg">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Map sheet columns — {title}</CardTitle>
+          <div className="text-sm text-slate-600 mt-1">Pick which header holds each column. The mapping is saved for this source.</div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-2 text-sm max-h-[60vh] overflow-y-auto">
+            {CANONICAL_COLUMNS.map(col => (
+              <label key={col} className="contents">
+                <span className="py-1">{col}{REQUIRED_COLUMNS.includes(col) && <span className="text-red-600"> *</span>}</span>
+                <select className="rounded-md border border-gray-300 px-2 py-1" value={draft[col] || ""} onChange={(e) => setDraft(prev => ({ ...prev, [col]: e.target.value || null }))}>
+                  <option value="">— not in sheet —</option>
+                  {fields.map(f => <option key={f} value={f}>{f}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          {missing.length > 0 && <div className="text-xs text-red-700 mt-2">Still missing: {missing.join(", ")}</div>}
+          <div className="mt-3 flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={save} disabled={missing.length > 0}>Save mapping</Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
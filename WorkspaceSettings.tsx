@@ -0,0 +1,185 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Settings, Plus, Trash2, ArrowLeft } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "./card";
+import { Button } from "./button";
+import { Input } from "./input";
+import { DROP_WEEKDAY, MAIL_TARGETS } from "./lib/config";
+import { findWorkspace, newWorkspaceId, type Workspace } from "./lib/workspaces";
+
+/**
+ * SETTINGS PAGE — named workspaces
+ *
+ * Each workspace (e.g. "CGM Land FL", "CGM Land OK") has its own sheet tabs, default monthly target range and mail
+ * drop weekday. They're saved on the server through /api/workspaces, so the tracker, calendar feed, digest and
+ * webhooks all read the same sheets (the webhooks also check the targets). Column mappings, blackout dates and
+ * calendar moves stay in the browser: the server routes use the built-in column aliases, BLOCKED_DAYS from
+ * lib/config.ts and the sheet's own dates. The first workspace is the default. Per-month target overrides are edited
+ * in the tracker's month card.
+ */
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const blankWorkspace = (name: string, taken: string[]): Workspace => ({
+  id: newWorkspaceId(name, taken),
+  name,
+  sources: [],
+  targets: MAIL_TARGETS,
+  dropWeekday: DROP_WEEKDAY,
+});
+
+export default function WorkspaceSettings() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [selectedId, setSelectedId] = useState(() => {
+    try { return new URLSearchParams(window.location.search).get("workspace") || ""; } catch { return ""; }
+  });
+  // Unsaved edits to the selected workspace
+  const [draft, setDraft] = useState<Workspace | null>(null);
+  const [status, setStatus] = useState<{ saving?: boolean; error?: string; savedAt?: Date }>({});
+  const [newName, setNewName] = useState("");
+
+  const selected = findWorkspace(workspaces, selectedId);
+  useEffect(() => { setDraft(selected ? JSON.parse(JSON.stringify(selected)) : null); }, [selected?.id, workspaces]);
+
+  const call = async (method: string, body?: unknown) => {
+    setStatus({ saving: method !== "GET" });
+    try {
+      const res = await fetch("/api/workspaces", {
+        method,
+        cache: "no-store",
+        ...(body ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) } : {}),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error?.message || `HTTP ${res.status}`);
+      setWorkspaces(json.workspaces);
+      setStatus(method === "GET" ? {} : { savedAt: new Date() });
+      return json.workspaces as Workspace[];
+    } catch (e) {
+      setStatus({ error: e.message || String(e) });
+      return null;
+    }
+  };
+  useEffect(() => { call("GET"); }, []);
+
+  const dirty = !!draft && !!selected && JSON.stringify(draft) !== JSON.stringify(selected);
+  const update = (patch: Partial<Workspace>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateSource = (i: number, patch) => update({ sources: draft.sources.map((src, j) => j === i ? { ...src, ...patch } : src) });
+  const setDefaultTarget = (field: "min" | "max", value: string) =>
+    update({ targets: { ...draft.targets, default: { ...draft.targets.default, [field]: Number(value) || 0 } } });
+
+  const save = () => draft && call("PUT", { workspace: draft });
+  const addWorkspace = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    const ws = blankWorkspace(name, workspaces.map(w => w.id));
+    if (await call("PUT", { workspace: ws })) {
+      setSelectedId(ws.id);
+      setNewName("");
+    }
+  };
+  const removeWorkspace = async () => {
+    if (!selected || !window.confirm(`Remove the workspace "${selected.name}"? Its sheets stay as they are.`)) return;
+    if (await call("DELETE", { id: selected.id })) setSelectedId("");
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-slate-50 to-slate-100 text-slate-800">
+      <header className="sticky top-0 z-50 backdrop-blur bg-white/70 border-b">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center gap-3">
+          <Settings className="h-6 w-6" />
+          <h1 className="text-xl font-semibold">Workspaces</h1>
+          <a href={selected ? `/?workspace=${encodeURIComponent(selected.id)}` : "/"} className="ml-auto inline-flex items-center gap-1 text-sm text-sky-700 hover:underline">
+            <ArrowLeft className="h-4 w-4" /> Back to the tracker
+          </a>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-4 grid md:grid-cols-[14rem_1fr] gap-4">
+        <Card className="shadow-sm self-start">
+          <CardContent className="p-2 space-y-1">
+            {workspaces.map((w, i) => (
+              <button key={w.id} type="button" onClick={() => setSelectedId(w.id)}
+                className={`w-full text-left text-sm rounded px-2 py-1.5 ${selected?.id === w.id ? "bg-sky-50 text-sky-800 font-medium" : "hover:bg-slate-50"}`}>
+                {w.name}{i === 0 && <span className="ml-1 text-xs text-slate-400">(default)</span>}
+              </button>
+            ))}
+            <div className="flex items-center gap-1 pt-2 border-t">
+              <Input placeholder="New workspace" value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => { if (e.key === "Enter") addWorkspace(); }} className="h-8" />
+              <Button variant="ghost" size="sm" onClick={addWorkspace} disabled={!newName.trim()} title="Add workspace"><Plus className="h-4 w-4" /></Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {draft ? (
+          <Card className="shadow-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                {selected.name}
+                <span className="text-xs font-normal text-slate-400">id: {draft.id}</span>
+                <Button variant="ghost" size="sm" className="ml-auto text-red-700" onClick={removeWorkspace} disabled={workspaces.length < 2} title={workspaces.length < 2 ? "The last workspace can't be removed" : "Remove this workspace"}>
+                  <Trash2 className="h-4 w-4 mr-1" /> Remove
+                </Button>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-5 text-sm">
+              <div className="grid sm:grid-cols-2 gap-3">
+                <label className="block">
+                  <div className="font-medium mb-1">Name</div>
+                  <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} className="h-8" />
+                </label>
+                <label className="block">
+                  <div className="font-medium mb-1">Mail drop day</div>
+                  <select className="rounded-md border border-gray-300 px-2 py-1 w-full h-8 bg-white" value={draft.dropWeekday} onChange={(e) => update({ dropWeekday: Number(e.target.value) })}>
+                    {WEEKDAYS.map((day, i) => <option key={i} value={i}>{day}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              <div>
+                <div className="font-medium mb-1">Monthly mail target</div>
+                <div className="flex items-center gap-2">
+                  <Input type="number" min={0} value={draft.targets.default.min} onChange={(e) => setDefaultTarget("min", e.target.value)} className="w-32 h-8" />
+                  <span>to</span>
+                  <Input type="number" min={0} value={draft.targets.default.max} onChange={(e) => setDefaultTarget("max", e.target.value)} className="w-32 h-8" />
+                  <span className="text-slate-500">pieces</span>
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  For any month without its own range. {Object.keys(draft.targets.months || {}).length} month override{Object.keys(draft.targets.months || {}).length === 1 ? "" : "s"} set in the month card.
+                </div>
+              </div>
+
+              <div>
+                <div className="font-medium mb-1">Sheet sources</div>
+                {draft.sources.length === 0 && <div className="text-slate-500 mb-2">No sheets yet — the tracker shows sample data until one is added.</div>}
+                <div className="space-y-2">
+                  {draft.sources.map((src, i) => (
+                    <div key={src.id} className="flex flex-wrap items-center gap-2">
+                      <Input placeholder="Label (e.g. OK tab)" value={src.label} onChange={(e) => updateSource(i, { label: e.target.value })} className="w-40 h-8" />
+                      <Input placeholder="Google Sheet link or CSV link" value={src.url} onChange={(e) => updateSource(i, { url: e.target.value })} className="flex-1 min-w-[16rem] h-8" />
+                      <Input placeholder="gid (optional)" value={src.gid || ""} onChange={(e) => updateSource(i, { gid: e.target.value })} className="w-28 h-8" />
+                      <Input placeholder="Default Category" value={src.category || ""} onChange={(e) => updateSource(i, { category: e.target.value })} className="w-36 h-8" />
+                      <Button variant="ghost" size="sm" onClick={() => update({ sources: draft.sources.filter((_, j) => j !== i) })} title="Remove source"><Trash2 className="h-4 w-4" /></Button>
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" className="mt-2" onClick={() => update({ sources: [...draft.sources, { id: `src-${Date.now().toString(36)}`, label: "", url: "" }] })}>
+                  <Plus className="h-4 w-4 mr-1" /> Add sheet
+                </Button>
+                <div className="text-xs text-slate-500 mt-1">Rows from every sheet are merged into one schedule. The default Category fills in rows that leave it blank.</div>
+              </div>
+
+              <div className="flex items-center gap-3 pt-2 border-t">
+                <Button size="sm" onClick={save} disabled={!dirty || status.saving}>{status.saving ? "Saving…" : "Save"}</Button>
+                {dirty && <Button variant="ghost" size="sm" onClick={() => setDraft(JSON.parse(JSON.stringify(selected)))}>Discard changes</Button>}
+                {status.error && <span className="text-red-700">{status.error}</span>}
+                {!status.error && !dirty && status.savedAt && <span className="text-slate-500">Saved.</span>}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="text-sm text-slate-500">{status.error ? `Couldn't load the workspaces: ${status.error}` : "Loading…"}</div>
+        )}
+      </main>
+    </div>
+  );
+}
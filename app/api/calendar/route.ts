@@ -0,0 +1,9 @@
+import { createCalendarHandler } from '../../../lib/calendarFeed';
+
+/**
+ * Subscribable iCalendar feed of the schedule. See `createCalendarHandler`
+ * for the query parameters.
+ */
+export const dynamic = 'force-dynamic';
+
+export const GET = createCalendarHandler();
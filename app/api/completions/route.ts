@@ -0,0 +1,9 @@
+import { createCompletionHandlers } from '../../../lib/completionApi';
+
+/**
+ * Shared Text/VM completion state. See `createCompletionHandlers` for the
+ * request and response shapes.
+ */
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST, DELETE, PATCH } = createCompletionHandlers();
@@ -0,0 +1,9 @@
+import { createDigestHandlers } from '../../../lib/digestApi';
+
+/**
+ * Email digest of overdue and upcoming tasks. See `createDigestHandlers` for
+ * previews, the send schedule and the delivery log.
+ */
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST } = createDigestHandlers();
@@ -0,0 +1,9 @@
+import { createSheetHandler } from '../../../lib/sheetProxy';
+
+/**
+ * Same-origin proxy for the Google Sheet. See `createSheetHandler` for the
+ * query parameters and error codes.
+ */
+export const dynamic = 'force-dynamic';
+
+export const GET = createSheetHandler();
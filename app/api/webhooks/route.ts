@@ -0,0 +1,9 @@
+import { createWebhookHandlers } from '../../../lib/webhookApi';
+
+/**
+ * Outgoing webhooks for due and overdue tasks, missed monthly targets and
+ * sheet changes. See `createWebhookHandlers` for the run and log endpoints.
+ */
+export const dynamic = 'force-dynamic';
+
+export const { GET, POST } = createWebhookHandlers();
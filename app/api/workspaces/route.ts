@@ -0,0 +1,9 @@
+import { createWorkspaceHandlers } from '../../../lib/workspaceApi';
+
+/**
+ * Named workspaces (sheet sources, targets, drop weekday) edited on the
+ * Settings page. See `createWorkspaceHandlers`.
+ */
+export const dynamic = 'force-dynamic';
+
+export const { GET, PUT, DELETE } = createWorkspaceHandlers();
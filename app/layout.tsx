@@ -4,6 +4,12 @@ import type { ReactNode } from 'react';
 export const metadata = {
   title: 'Marketing Schedule Tracker',
   description: 'Marketing schedule tracking app',
+  appleWebApp: { capable: true, title: 'Tracker' },
+  icons: { icon: '/icons/icon-192.png', apple: '/icons/icon-192.png' },
+};
+
+export const viewport = {
+  themeColor: '#0284c7',
 };
 
 export default function RootLayout({ children }: { children: ReactNode }) {
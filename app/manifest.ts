@@ -0,0 +1,23 @@
+import type { MetadataRoute } from 'next';
+
+/**
+ * Web app manifest, so the tracker can be installed and opened like an app.
+ * Offline, the service worker (public/sw.js) serves the page and the sheets
+ * come from the browser's cached copy.
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Marketing Schedule Tracker',
+    short_name: 'Tracker',
+    description: 'Marketing schedule tracking app',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#f8fafc',
+    theme_color: '#0284c7',
+    icons: [
+      { src: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png' },
+      { src: '/icons/icon-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import WorkspaceSettings from '../../WorkspaceSettings';
+
+/**
+ * Settings page: the named workspaces (sheet sources, targets, drop weekday)
+ * the tracker switches between.
+ */
+export default function SettingsPage() {
+  return <WorkspaceSettings />;
+}
@@ -3,9 +3,10 @@ import { cn } from '@/lib/utils';
 
 export interface BadgeProps extends React.HTMLAttributes<HTMLDivElement> {
   /**
-   * Visual variant of the badge. Default is neutral, secondary has a colored background.
+   * Visual variant of the badge. Default is neutral, secondary has a colored background,
+   * success and warning mark good / in-progress states and destructive flags a problem.
    */
-  variant?: 'default' | 'secondary';
+  variant?: 'default' | 'secondary' | 'destructive' | 'success' | 'warning';
 }
 
 /**
@@ -15,6 +16,9 @@ export function Badge({ className, variant = 'default', ...props }: BadgeProps)
   const variantClasses = {
     default: 'bg-gray-100 text-gray-800',
     secondary: 'bg-blue-100 text-blue-800',
+    destructive: 'bg-red-100 text-red-800',
+    success: 'bg-green-100 text-green-800',
+    warning: 'bg-amber-100 text-amber-800',
   }[variant] as string;
 
   return (
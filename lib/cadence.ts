@@ -0,0 +1,131 @@
+import { addDays } from 'date-fns';
+
+/**
+ * Follow-up channels a cadence rule can schedule. The mail drop itself is the
+ * anchor of every cadence and is always on the row's (adjusted) date.
+ */
+export type FollowUpChannel = 'text' | 'vm';
+
+export interface CadenceTouch {
+  channel: FollowUpChannel;
+  /** Days after the mail date, e.g. 13 for "text at +13". */
+  offsetDays: number;
+}
+
+/**
+ * Criteria a row must meet for a rule to apply. Every field that is set must
+ * match (AND); within a field any listed value may match (OR). All comparisons
+ * are case-insensitive.
+ */
+export interface CadenceMatch {
+  /** Exact Category values, e.g. ["FL"]. */
+  category?: string[];
+  /** Substrings of the campaign name, e.g. ["DM3"]. */
+  campaign?: string[];
+  /** Tokens from the Tags or Channels column, e.g. ["Double Text"]. */
+  tag?: string[];
+}
+
+export interface CadenceRule {
+  name: string;
+  /** Omit to match every row (use for the catch-all rule at the end). */
+  match?: CadenceMatch;
+  touches: CadenceTouch[];
+}
+
+/** The minimal row shape the cadence model needs. */
+export interface CadenceSubject {
+  mailDate: Date;
+  hasMail: boolean;
+  hasText: boolean;
+  hasVM: boolean;
+  campaign?: string;
+  category?: string;
+  tags?: string;
+}
+
+export interface FollowUp {
+  channel: FollowUpChannel;
+  /** 1-based position of this touch within its channel (2 = second text). */
+  touch: number;
+  offsetDays: number;
+  date: Date;
+}
+
+/** Historical behaviour: one text and one voicemail 13 days after the drop. */
+export const DEFAULT_CADENCE_RULES: CadenceRule[] = [
+  {
+    name: 'Default',
+    touches: [
+      { channel: 'text', offsetDays: 13 },
+      { channel: 'vm', offsetDays: 13 },
+    ],
+  },
+];
+
+const norm = (s: unknown) => String(s ?? '').trim().toLowerCase();
+
+const splitTokens = (s: unknown) =>
+  norm(s)
+    .split(/[,;|]/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+/**
+ * Returns true when a rule's match criteria accept the given row.
+ */
+export function ruleMatches(rule: CadenceRule, row: CadenceSubject): boolean {
+  const m = rule.match;
+  if (!m) return true;
+  if (m.category?.length && !m.category.some((c) => norm(c) === norm(row.category))) return false;
+  if (m.campaign?.length && !m.campaign.some((c) => norm(row.campaign).includes(norm(c)))) return false;
+  if (m.tag?.length) {
+    const tokens = splitTokens(row.tags);
+    if (!m.tag.some((t) => tokens.includes(norm(t)))) return false;
+  }
+  return true;
+}
+
+/**
+ * Picks the first rule that matches the row. Falls back to the default cadence
+ * so a rule list without a catch-all never drops follow-ups.
+ */
+export function matchCadenceRule(row: CadenceSubject, rules: CadenceRule[] = DEFAULT_CADENCE_RULES): CadenceRule {
+  return rules.find((r) => ruleMatches(r, row)) || DEFAULT_CADENCE_RULES[0];
+}
+
+/**
+ * Computes the follow-up touches for a row. Channels the row has opted out of
+ * are skipped. Text/VM-only rows have no drop to count from, so the whole
+ * cadence is pulled back until its earliest touch lands on the row's date.
+ */
+export function followUpsFor(row: CadenceSubject, rules: CadenceRule[] = DEFAULT_CADENCE_RULES): FollowUp[] {
+  const rule = matchCadenceRule(row, rules);
+  const touches = rule.touches.filter((t) => (t.channel === 'text' ? row.hasText : row.hasVM));
+  if (!touches.length) return [];
+  const shift = row.hasMail ? 0 : Math.min(...touches.map((t) => t.offsetDays));
+  const seen: Record<FollowUpChannel, number> = { text: 0, vm: 0 };
+  return touches
+    .slice()
+    .sort((a, b) => a.offsetDays - b.offsetDays)
+    .map((t) => {
+      seen[t.channel] += 1;
+      return {
+        channel: t.channel,
+        touch: seen[t.channel],
+        offsetDays: t.offsetDays,
+        date: addDays(row.mailDate, t.offsetDays - shift),
+      };
+    });
+}
+
+/**
+ * Short human description of a rule, e.g. "Text +10, VM +14, Text +21".
+ */
+export function describeCadence(rule: CadenceRule): string {
+  return rule.touches
+    .slice()
+    .sort((a, b) => a.offsetDays - b.offsetDays)
+    .map((t) => `${t.channel === 'text' ? 'Text' : 'VM'} +${t.offsetDays}`)
+    .join(', ');
+}
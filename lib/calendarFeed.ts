@@ -0,0 +1,50 @@
+import { BLOCKED_DAYS, CADENCE_RULES } from './config';
+import { filterTasks, parseFeedFilter, tasksToIcs } from './ics';
+import { loadSchedule } from './schedule';
+import { createSheetLoader, sheetErrorResponse, type SheetProxyOptions } from './sheetProxy';
+import type { SheetSource } from './sources';
+import { requestWorkspace } from './workspaceApi';
+
+/**
+ * Sources named in the query (`url`, repeatable, each with an optional `gid`
+ * at the same position); the workspace's sources when there are none.
+ */
+function sourcesFrom(params: URLSearchParams, fallback: SheetSource[]): SheetSource[] {
+  const urls = params.getAll('url').filter(Boolean);
+  if (!urls.length) return fallback;
+  const gids = params.getAll('gid');
+  return urls.map((url, i) => ({ id: `feed-${i}`, label: `Sheet ${i + 1}`, url, gid: gids[i] || undefined }));
+}
+
+/**
+ * Route handler for `GET /api/calendar` — the schedule as an iCalendar feed
+ * that Google Calendar and Outlook can subscribe to.
+ *
+ * Query parameters: `workspace` (its sources; the default workspace without
+ * it) or `url` / `gid` pick the sheet(s), `channel` (mail, text, vm) and
+ * `category` filter the events, `download=1` serves it as a file.
+ * Sheet load failures return the same JSON errors as `/api/sheet`.
+ */
+export function createCalendarHandler(opts: SheetProxyOptions = {}) {
+  const loadSheet = createSheetLoader(opts);
+  const now = opts.now || (() => new Date());
+
+  return async function GET(req: Request): Promise<Response> {
+    const params = new URL(req.url).searchParams;
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    try {
+      const { tasks } = await loadSchedule(sourcesFrom(params, picked.workspace.sources), (url, gid) => loadSheet(url, gid), CADENCE_RULES, BLOCKED_DAYS);
+      const ics = tasksToIcs(filterTasks(tasks, parseFeedFilter(params)), { name: params.get('name') || undefined, now: now() });
+      return new Response(ics, {
+        headers: {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Cache-Control': 'private, max-age=300',
+          ...(params.get('download') === '1' ? { 'Content-Disposition': 'attachment; filename="marketing-schedule.ics"' } : {}),
+        },
+      });
+    } catch (e) {
+      return sheetErrorResponse(e);
+    }
+  };
+}
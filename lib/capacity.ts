@@ -0,0 +1,108 @@
+import { format, startOfWeek, endOfWeek } from 'date-fns';
+import type { ScheduledTask } from './schedule';
+
+/** Most the team can send; a limit that is null or left out isn't checked. */
+export interface CapacityLimits {
+  /** Mail pieces dropped in one Monday–Sunday week. */
+  piecesPerWeek?: number | null;
+  /** Texts (one per record on the list) sent on one day. */
+  textsPerDay?: number | null;
+  /** Voicemails dropped on one day. */
+  voicemailsPerDay?: number | null;
+  /** Different campaigns mailed on the same drop day. */
+  campaignsPerDrop?: number | null;
+}
+
+export type ConflictKind = 'piecesPerWeek' | 'textsPerDay' | 'voicemailsPerDay' | 'campaignsPerDrop';
+
+export interface CapacityConflict {
+  kind: ConflictKind;
+  /** The day, or the week's Monday for `piecesPerWeek`. */
+  start: Date;
+  end: Date;
+  limit: number;
+  actual: number;
+  /** The tasks that add up to `actual`. */
+  tasks: ScheduledTask[];
+  message: string;
+}
+
+export const NO_CAPACITY_LIMITS: CapacityLimits = { piecesPerWeek: null, textsPerDay: null, voicemailsPerDay: null, campaignsPerDrop: null };
+
+const dayKey = (d: Date) => format(d, 'yyyy-MM-dd');
+const num = (n: number) => n.toLocaleString('en-US');
+
+function groupBy(tasks: ScheduledTask[], key: (t: ScheduledTask) => string) {
+  const groups = new Map<string, ScheduledTask[]>();
+  for (const t of tasks) {
+    const k = key(t);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(t);
+  }
+  return groups;
+}
+
+/**
+ * Checks the computed tasks against the limits: pieces per week, texts and
+ * voicemails per day (counted by list size) and campaigns per mail drop.
+ * Conflicts come back in date order.
+ */
+export function findConflicts(tasks: ScheduledTask[], limits: CapacityLimits): CapacityConflict[] {
+  const conflicts: CapacityConflict[] = [];
+  const mail = tasks.filter((t) => t.type === 'mail');
+  const total = (list: ScheduledTask[]) => list.reduce((s, t) => s + (t.count || 0), 0);
+
+  if (limits.piecesPerWeek != null) {
+    for (const list of groupBy(mail, (t) => dayKey(startOfWeek(t.date, { weekStartsOn: 1 }))).values()) {
+      const actual = total(list);
+      if (actual <= limits.piecesPerWeek) continue;
+      const start = startOfWeek(list[0].date, { weekStartsOn: 1 });
+      conflicts.push({
+        kind: 'piecesPerWeek', start, end: endOfWeek(start, { weekStartsOn: 1 }), limit: limits.piecesPerWeek, actual, tasks: list,
+        message: `${num(actual)} pieces in the week of ${format(start, 'MMM d')} (limit ${num(limits.piecesPerWeek)})`,
+      });
+    }
+  }
+
+  const perDay: [ConflictKind, 'text' | 'vm', string][] = [['textsPerDay', 'text', 'texts'], ['voicemailsPerDay', 'vm', 'voicemails']];
+  for (const [kind, type, noun] of perDay) {
+    const limit = limits[kind];
+    if (limit == null) continue;
+    for (const list of groupBy(tasks.filter((t) => t.type === type), (t) => dayKey(t.date)).values()) {
+      const actual = total(list);
+      if (actual <= limit) continue;
+      conflicts.push({
+        kind, start: list[0].date, end: list[0].date, limit, actual, tasks: list,
+        message: `${num(actual)} ${noun} on ${format(list[0].date, 'EEE, MMM d')} (limit ${num(limit)})`,
+      });
+    }
+  }
+
+  if (limits.campaignsPerDrop != null) {
+    for (const list of groupBy(mail, (t) => dayKey(t.date)).values()) {
+      const campaigns = new Set(list.map((t) => t.ref.campaign.trim().toLowerCase()));
+      if (campaigns.size <= limits.campaignsPerDrop) continue;
+      conflicts.push({
+        kind: 'campaignsPerDrop', start: list[0].date, end: list[0].date, limit: limits.campaignsPerDrop, actual: campaigns.size, tasks: list,
+        message: `${campaigns.size} campaigns dropping on ${format(list[0].date, 'EEE, MMM d')} (limit ${limits.campaignsPerDrop})`,
+      });
+    }
+  }
+
+  return conflicts.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Conflicts by the days their tasks fall on (yyyy-MM-dd), for highlighting
+ * calendar cells. A week over its piece limit marks each of its drop days.
+ */
+export function conflictsByDay(conflicts: CapacityConflict[]): Map<string, CapacityConflict[]> {
+  const byDay = new Map<string, CapacityConflict[]>();
+  for (const c of conflicts) {
+    for (const key of new Set(c.tasks.map((t) => dayKey(t.date)))) {
+      if (!byDay.has(key)) byDay.set(key, []);
+      byDay.get(key)!.push(c);
+    }
+  }
+  return byDay;
+}
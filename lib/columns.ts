@@ -0,0 +1,86 @@
+import { REQUIRED_COLUMNS } from './import';
+
+/**
+ * Canonical column names the tracker reads, with the header spellings that
+ * resolve to each one. Headers are compared after `normalizeHeader`, so case,
+ * punctuation and extra whitespace never matter.
+ */
+export const COLUMN_ALIASES: Record<string, string[]> = {
+  Date: ['date', 'mail date', 'drop date', 'send date'],
+  Campaign: ['campaign', 'campaign name', 'list', 'list name'],
+  Count: ['count', 'qty', 'quantity', 'pieces', 'mail count', 'records'],
+  'Red - Adjusted Dates': ['red adjusted dates', 'adjusted dates', 'adjusted date', 'new date'],
+  'Month and Year': ['month and year', 'month year', 'month'],
+  Week: ['week', 'week of'],
+  Category: ['category', 'market', 'state'],
+  Part: ['part'],
+  Batch: ['batch', 'batch number', 'batch no'],
+  Cost: ['cost', 'price', 'spend', 'total cost'],
+  Channels: ['channels', 'channel'],
+  Tags: ['tags', 'tag'],
+  County: ['county', 'counties'],
+  ID: ['id', 'row id', 'row key', 'uid'],
+  Calls: ['calls', 'call count', 'inbound calls', 'responses'],
+  Leads: ['leads', 'lead count'],
+  Contracts: ['contracts', 'deals', 'contracts signed'],
+  Revenue: ['revenue', 'gross profit', 'profit', 'income'],
+};
+
+export const CANONICAL_COLUMNS = Object.keys(COLUMN_ALIASES);
+
+/** Canonical column => header in the loaded sheet (null when not present). */
+export type ColumnMapping = Record<string, string | null>;
+
+/** A saved mapping for one source; only the columns the user chose. */
+export type MappingProfile = Record<string, string>;
+
+export const normalizeHeader = (h: unknown) =>
+  String(h ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Matches the loaded headers to canonical columns. A saved profile wins when
+ * its header still exists; otherwise the aliases are tried in order.
+ */
+export function resolveColumns(
+  fields: string[],
+  profile?: MappingProfile | null,
+): { mapping: ColumnMapping; missingRequired: string[] } {
+  const byNorm = new Map<string, string>();
+  for (const f of fields || []) if (!byNorm.has(normalizeHeader(f))) byNorm.set(normalizeHeader(f), f);
+  const used = new Set<string>();
+  const mapping: ColumnMapping = {};
+  for (const col of CANONICAL_COLUMNS) {
+    const saved = profile?.[col];
+    if (saved && fields.includes(saved)) {
+      mapping[col] = saved;
+      used.add(saved);
+    }
+  }
+  for (const col of CANONICAL_COLUMNS) {
+    if (mapping[col]) continue;
+    const hit = COLUMN_ALIASES[col].map((a) => byNorm.get(a)).find((f) => f && !used.has(f));
+    mapping[col] = hit || null;
+    if (hit) used.add(hit);
+  }
+  return { mapping, missingRequired: REQUIRED_COLUMNS.filter((c) => !mapping[c]) };
+}
+
+/**
+ * Re-keys rows to canonical column names. Columns that aren't mapped keep
+ * their original header so nothing is lost.
+ */
+export function applyMapping(rows: Record<string, any>[], mapping: ColumnMapping): Record<string, any>[] {
+  const mapped = new Set(Object.values(mapping).filter(Boolean));
+  return (rows || []).map((r) => {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(r || {})) if (!mapped.has(k)) out[k] = v;
+    for (const [col, header] of Object.entries(mapping)) if (header) out[col] = r?.[header];
+    return out;
+  });
+}
+
+/** Canonical columns present after mapping, in the shape `normalizeRows` expects. */
+export const mappedFields = (mapping: ColumnMapping) => CANONICAL_COLUMNS.filter((c) => mapping[c]);
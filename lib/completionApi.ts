@@ -0,0 +1,106 @@
+import { jsonStore } from './store';
+import { isValidStatus, typeOfKey, type TaskStatus } from './status';
+import { applyComplete, applyRekey, applyReopen, applyStatus, emptyCompletionState, toSnapshot, type CompletionState } from './completions';
+import { requestWorkspace } from './workspaceApi';
+
+const MAX_USER = 80;
+const MAX_NOTE = 500;
+
+const errorResponse = (status: number, code: string, message: string) =>
+  Response.json({ error: { code, message } }, { status, headers: { 'Cache-Control': 'no-store' } });
+
+interface CompletionInput {
+  key: string;
+  user: string;
+  note?: string;
+  to?: string;
+  status?: TaskStatus;
+  date?: string;
+}
+
+async function readInput(req: Request): Promise<CompletionInput | Response> {
+  let parsed: unknown;
+  try {
+    parsed = await req.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'Request body must be JSON.');
+  }
+  const body: Record<string, unknown> = parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  const text = (v: unknown) => (typeof v === 'string' ? v : undefined);
+  const key = text(body.key) || '';
+  const user = text(body.user)?.trim().slice(0, MAX_USER) || '';
+  // "" clears the note; no `note` at all leaves it as it is
+  const note = text(body.note)?.trim().slice(0, MAX_NOTE);
+  if (!key) return errorResponse(400, 'missing_key', 'Which task? `key` is required.');
+  if (!user) return errorResponse(400, 'missing_user', 'Set your name before checking tasks off.');
+  let status: TaskStatus | undefined;
+  if (body.status !== undefined) {
+    if (!isValidStatus(typeOfKey(key), body.status)) {
+      return errorResponse(400, 'invalid_status', `"${body.status}" isn't a status for ${typeOfKey(key) || 'this'} tasks.`);
+    }
+    status = body.status;
+  }
+  const date = text(body.date);
+  return { key, user, note, to: text(body.to), status, date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined };
+}
+
+/**
+ * Route handlers for `/api/completions`:
+ * - `GET` returns `{ completions, revision }` (304 when `If-None-Match` matches the revision)
+ * - `POST { key, user, status?, date?, note? }` records a lifecycle status (without `status`, a plain
+ *   Text/VM checkmark, or a note on an existing record; `note: ""` clears the note)
+ * - `DELETE { key, user }` clears the status (reopens the task)
+ * - `PATCH { key, to, user }` moves a completion to a task's new key
+ * Each takes `?workspace=<id>` (the default workspace without it); every workspace has its own statuses.
+ * Every change is kept in the store's audit log.
+ */
+export function createCompletionHandlers(opts: { file?: string; now?: () => Date } = {}) {
+  const storeFor = (suffix: string) => jsonStore<CompletionState>(opts.file || `completions${suffix}.json`, emptyCompletionState);
+  const now = opts.now || (() => new Date());
+
+  /** The request's workspace store and body, or the error response. */
+  async function readRequest(req: Request) {
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    const input = await readInput(req);
+    if (input instanceof Response) return input;
+    return { store: storeFor(picked.suffix), input };
+  }
+
+  const snapshot = (state: CompletionState) =>
+    Response.json(toSnapshot(state), { headers: { ETag: `"r${state.revision}"`, 'Cache-Control': 'no-cache' } });
+
+  async function GET(req: Request): Promise<Response> {
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    const state = await storeFor(picked.suffix).read();
+    if (req.headers.get('if-none-match') === `"r${state.revision}"`) return new Response(null, { status: 304 });
+    return snapshot(state);
+  }
+
+  async function POST(req: Request): Promise<Response> {
+    const request = await readRequest(req);
+    if (request instanceof Response) return request;
+    const { store, input } = request;
+    const at = now();
+    return snapshot(await store.update((state) => (input.status ? applyStatus(state, { ...input, status: input.status }, at) : applyComplete(state, input, at))));
+  }
+
+  async function DELETE(req: Request): Promise<Response> {
+    const request = await readRequest(req);
+    if (request instanceof Response) return request;
+    const { store, input } = request;
+    return snapshot(await store.update((state) => applyReopen(state, input, now())));
+  }
+
+  async function PATCH(req: Request): Promise<Response> {
+    const request = await readRequest(req);
+    if (request instanceof Response) return request;
+    const { store, input } = request;
+    if (!input.to) return errorResponse(400, 'missing_to', 'Where to? `to` is required.');
+    const move = { from: input.key, to: input.to, user: input.user };
+    return snapshot(await store.update((state) => applyRekey(state, move, now())));
+  }
+
+  return { GET, POST, DELETE, PATCH };
+}
@@ -0,0 +1,132 @@
+import type { TaskStatus } from './status';
+
+/**
+ * A task's recorded status and who set it, when. Keyed by the task key.
+ * Records without a status are plain Text/VM checkmarks from before statuses.
+ */
+export interface Completion {
+  key: string;
+  user: string;
+  /** ISO timestamp of the change. */
+  at: string;
+  note?: string;
+  status?: TaskStatus;
+  /** Day the status happened (yyyy-MM-dd), e.g. the drop or send date. */
+  date?: string;
+}
+
+/** One entry of the audit trail; entries are never removed. */
+export interface CompletionLogEntry extends Completion {
+  action: 'completed' | 'reopened' | 'noted' | 'rekeyed' | 'status';
+  /** Previous key, for `rekeyed` entries. */
+  from?: string;
+}
+
+export interface CompletionState {
+  completions: Record<string, Completion>;
+  log: CompletionLogEntry[];
+  /** Bumped on every change; clients use it to skip unchanged polls. */
+  revision: number;
+}
+
+/** What the API returns to the browser. */
+export interface CompletionSnapshot {
+  completions: Completion[];
+  revision: number;
+}
+
+export const emptyCompletionState = (): CompletionState => ({ completions: {}, log: [], revision: 0 });
+
+export const toSnapshot = (state: CompletionState): CompletionSnapshot => ({
+  completions: Object.values(state.completions),
+  revision: state.revision,
+});
+
+/** Sets or (with "") clears a record's note. */
+const setNote = (record: Completion, note: string | undefined) => {
+  if (note) record.note = note;
+  else delete record.note;
+};
+
+/**
+ * Marks a task done. If someone else already completed it, their record is
+ * kept (first one wins) and only the note is changed, so two people ticking
+ * the same box at once don't overwrite each other. A `note` of "" clears the
+ * note; leaving it out keeps it.
+ */
+export function applyComplete(state: CompletionState, input: { key: string; user: string; note?: string }, at: Date) {
+  const existing = state.completions[input.key];
+  const stamp = at.toISOString();
+  if (existing) {
+    if (input.note === undefined || input.note === (existing.note || '')) return state;
+    setNote(existing, input.note);
+    state.log.push({ ...existing, note: input.note, user: input.user, at: stamp, action: 'noted' });
+  } else {
+    const record: Completion = { key: input.key, user: input.user, at: stamp, ...(input.note ? { note: input.note } : {}) };
+    state.completions[input.key] = record;
+    state.log.push({ ...record, action: 'completed' });
+  }
+  state.revision += 1;
+  return state;
+}
+
+/**
+ * Sets a task's lifecycle status. Setting the status it already has only
+ * updates the date and note, so two people recording the same step keep the
+ * first person's name and time. As with `applyComplete`, a `note` of "" clears
+ * the note and leaving it out keeps it.
+ */
+export function applyStatus(
+  state: CompletionState,
+  input: { key: string; user: string; status: TaskStatus; date?: string; note?: string },
+  at: Date,
+) {
+  const existing = state.completions[input.key];
+  const stamp = at.toISOString();
+  if (existing && existing.status === input.status) {
+    const date = input.date || existing.date;
+    const note = input.note === undefined ? existing.note : input.note || undefined;
+    if (date === existing.date && note === existing.note) return state;
+    const action = date === existing.date ? 'noted' : 'status';
+    existing.date = date;
+    setNote(existing, note);
+    state.log.push({ ...existing, ...(input.note === '' ? { note: '' } : {}), user: input.user, at: stamp, action });
+  } else {
+    const note = input.note === undefined ? existing?.note : input.note || undefined;
+    const record: Completion = {
+      key: input.key,
+      user: input.user,
+      at: stamp,
+      status: input.status,
+      date: input.date || stamp.slice(0, 10),
+      ...(note ? { note } : {}),
+    };
+    state.completions[input.key] = record;
+    state.log.push({ ...record, action: 'status' });
+  }
+  state.revision += 1;
+  return state;
+}
+
+/** Reopens a task. The original completion stays in the log. */
+export function applyReopen(state: CompletionState, input: { key: string; user: string }, at: Date) {
+  if (!state.completions[input.key]) return state;
+  delete state.completions[input.key];
+  state.log.push({ key: input.key, user: input.user, at: at.toISOString(), action: 'reopened' });
+  state.revision += 1;
+  return state;
+}
+
+/**
+ * Moves a completion to a task's new key (e.g. after task keys became
+ * date-independent), keeping who completed it and when.
+ */
+export function applyRekey(state: CompletionState, input: { from: string; to: string; user: string }, at: Date) {
+  const existing = state.completions[input.from];
+  if (!existing || input.from === input.to) return state;
+  delete state.completions[input.from];
+  if (!state.completions[input.to]) state.completions[input.to] = { ...existing, key: input.to };
+  state.log.push({ key: input.to, from: input.from, user: input.user, at: at.toISOString(), action: 'rekeyed' });
+  state.revision += 1;
+  return state;
+}
@@ -0,0 +1,72 @@
+import type { CadenceRule } from './cadence';
+import type { CapacityLimits } from './capacity';
+import type { DigestConfig } from './digest';
+import { DEFAULT_BLOCKED_DAYS, type BlockedDays } from './holidays';
+import type { TargetConfig } from './targets';
+import type { WebhookEndpoint } from './webhooks';
+import type { Workspace } from './workspaces';
+
+// Shared by the page and the server routes (calendar feed), so both compute the same schedule.
+
+// Follow-up cadence. The first matching rule wins; keep a catch-all rule last.
+// Match by category (exact), campaign (substring) or tag (token in Tags/Channels).
+// Example of a double-text campaign: { name: 'Double text', match: { tag: ['Double Text'] }, touches: [{ channel: 'text', offsetDays: 13 }, { channel: 'vm', offsetDays: 13 }, { channel: 'text', offsetDays: 21 }] }
+export const CADENCE_RULES: CadenceRule[] = [
+  { name: 'Florida', match: { category: ['FL'] }, touches: [{ channel: 'text', offsetDays: 10 }, { channel: 'vm', offsetDays: 14 }] },
+  { name: 'Default', touches: [{ channel: 'text', offsetDays: 13 }, { channel: 'vm', offsetDays: 13 }] },
+];
+
+// Monthly mail targets new workspaces start with; each workspace keeps its own, edited in the month card.
+// Per-month overrides are keyed by yyyy-MM and may be split by Category, e.g.
+// months: { '2025-10': { min: 9000, max: 10000, byCategory: { FL: { min: 6000, max: 7000 }, OK: { min: 3000, max: 3500 } } } }
+export const MAIL_TARGETS: TargetConfig = {
+  default: { min: 9000, max: 10000 },
+};
+
+// Days follow-ups shouldn't go out: weekdays (0 = Sunday), US federal/USPS holidays and blackout dates (yyyy-MM-dd).
+// policy: 'next' moves a follow-up to the next open day, 'previous' to the day before, 'none' only flags it.
+// Blackout dates added on the page (saved in this browser) are added to these; the calendar feed uses these only.
+export const BLOCKED_DAYS: BlockedDays = { ...DEFAULT_BLOCKED_DAYS, blackoutDates: [] };
+// Weekday mail drops go out on (0 = Sunday … 6 = Saturday) for new workspaces; used for the remaining-drops
+// forecast, and drops on other days are flagged.
+export const DROP_WEEKDAY = 2;
+
+// Workspaces the server starts with before any are saved from the Settings page (/settings), where each one's sheet
+// tabs, targets and drop weekday are edited. The first is the default. Targets and drop weekday above are also what
+// new workspaces start from. A source's `category` fills in blank Category cells, e.g.
+// { id: 'ok', label: 'OK tab', url: 'https://docs.google.com/spreadsheets/d/XXX/edit', gid: '123456', category: 'OK' }
+export const DEFAULT_WORKSPACES: Workspace[] = [
+  {
+    id: 'default',
+    name: 'Marketing',
+    sources: [{ id: 'fixed', label: 'Marketing', url: 'https://docs.google.com/spreadsheets/d/1gFBB6_C4ZL3Wv0m4Pw7s9Vt9A7806Cj1r5u7O_cw_bo/edit#gid=0' }],
+    targets: MAIL_TARGETS,
+    dropWeekday: DROP_WEEKDAY,
+  },
+];
+
+// Capacity limits checked against every computed task. None are set, so nothing is checked until a team adds its
+// own here or in the capacity panel (saved in this browser), e.g. { piecesPerWeek: 4000, campaignsPerDrop: 2 }.
+// Texts and voicemails count one per record on the list.
+export const CAPACITY_LIMITS: CapacityLimits = { piecesPerWeek: null, textsPerDay: null, voicemailsPerDay: null, campaignsPerDrop: null };
+
+// Email digest of overdue, this week's and next week's tasks (see lib/digest.ts). POST /api/digest hourly from a
+// cron job (per workspace with ?workspace=<id>); it sends on these weekdays (0 = Sunday) at this hour in the time zone. Mail goes through SMTP_HOST /
+// SMTP_PORT / SMTP_USER / SMTP_PASS. Each recipient can follow some Categories and channels (mail, text, vm), e.g.
+// { email: 'fl-team@example.com', name: 'FL team', categories: ['FL'], channels: ['text', 'vm'] }
+export const DIGEST: DigestConfig = {
+  from: 'Marketing Tracker <tracker@localhost>',
+  schedule: { weekdays: [1], hour: 7, timeZone: 'America/New_York' },
+  recipients: [],
+  overdueDays: 30,
+};
+
+// Outgoing webhooks (see lib/webhooks.ts). POST /api/webhooks every few minutes from a cron job, once per
+// workspace (?workspace=<id>; the default without it). Events: task.due, task.overdue (Text/VM up to overdueDays
+// late), month.target_missed (last month vs the workspace's targets) and sheet.changed. Bodies are signed with the
+// endpoint's secret or WEBHOOK_SECRET (one of them is required), e.g.
+// { url: 'https://hooks.example.com/tracker', events: ['task.overdue', 'month.target_missed'] }
+export const WEBHOOKS: { endpoints: WebhookEndpoint[]; overdueDays: number } = {
+  endpoints: [],
+  overdueDays: 7,
+};
@@ -0,0 +1,192 @@
+import { addDays, differenceInCalendarDays, endOfWeek, format, startOfDay, startOfWeek } from 'date-fns';
+import type { Completion } from './completions';
+import { filterTasks } from './ics';
+import type { ScheduledTask } from './schedule';
+import { STATUS_META, effectiveStatus, isDoneStatus } from './status';
+
+/** Someone who gets the digest, and what they follow (empty or missing lists mean everything). */
+export interface DigestRecipient {
+  email: string;
+  name?: string;
+  categories?: string[];
+  /** 'mail', 'text' and/or 'vm'. */
+  channels?: string[];
+}
+
+/** When the digest goes out, in the given IANA time zone. */
+export interface DigestSchedule {
+  /** 0 = Sunday … 6 = Saturday. */
+  weekdays: number[];
+  /** Hour of the day, 0–23. */
+  hour: number;
+  timeZone: string;
+}
+
+export interface DigestConfig {
+  from: string;
+  schedule: DigestSchedule;
+  recipients: DigestRecipient[];
+  /** How far back unfinished tasks are listed as overdue. */
+  overdueDays: number;
+}
+
+export interface DigestSections {
+  overdue: ScheduledTask[];
+  thisWeek: ScheduledTask[];
+  nextWeek: ScheduledTask[];
+}
+
+const CHANNEL_NAMES: Record<string, string> = { mail: 'Mail', text: 'Text', vm: 'Voicemail' };
+
+const statusOf = (t: ScheduledTask, completions: Record<string, Completion>) => effectiveStatus(completions[t.idKey], t.type);
+
+/**
+ * The page's "This week" and "Next week" lists (Mon–Sun) plus overdue tasks:
+ * anything dated before today, within `overdueDays`, that isn't done yet.
+ */
+export function digestSections(
+  tasks: ScheduledTask[],
+  completions: Record<string, Completion>,
+  opts: { today: Date; overdueDays: number },
+): DigestSections {
+  const today = startOfDay(opts.today);
+  const week = (d: Date) => ({ start: startOfWeek(d, { weekStartsOn: 1 }), end: endOfWeek(d, { weekStartsOn: 1 }) });
+  const inWeek = (t: ScheduledTask, w: { start: Date; end: Date }) => t.date >= w.start && t.date <= w.end;
+  const thisWeek = week(today);
+  const nextWeek = week(addDays(today, 7));
+  const oldest = addDays(today, -opts.overdueDays);
+  return {
+    overdue: tasks.filter((t) => t.date < today && t.date >= oldest && !isDoneStatus(statusOf(t, completions))),
+    thisWeek: tasks.filter((t) => inWeek(t, thisWeek)),
+    nextWeek: tasks.filter((t) => inWeek(t, nextWeek)),
+  };
+}
+
+/** Narrows the sections to what a recipient follows. */
+export function sectionsFor(sections: DigestSections, recipient: DigestRecipient): DigestSections {
+  const filter = {
+    channels: (recipient.channels || []).map((c) => c.toLowerCase()),
+    categories: (recipient.categories || []).map((c) => c.trim().toLowerCase()),
+  };
+  return {
+    overdue: filterTasks(sections.overdue, filter),
+    thisWeek: filterTasks(sections.thisWeek, filter),
+    nextWeek: filterTasks(sections.nextWeek, filter),
+  };
+}
+
+export const digestTaskCount = (s: DigestSections) => s.overdue.length + s.thisWeek.length + s.nextWeek.length;
+
+interface RenderOptions {
+  today: Date;
+  completions: Record<string, Completion>;
+  recipient?: DigestRecipient;
+  /** Link to the tracker page. */
+  pageUrl?: string;
+}
+
+const headings = (s: DigestSections, today: Date): [string, ScheduledTask[]][] => [
+  ['Overdue', s.overdue],
+  [`This week (from ${format(startOfWeek(today, { weekStartsOn: 1 }), 'MMM d')})`, s.thisWeek],
+  [`Next week (from ${format(startOfWeek(addDays(today, 7), { weekStartsOn: 1 }), 'MMM d')})`, s.nextWeek],
+];
+
+const describe = (t: ScheduledTask, opts: RenderOptions) => {
+  const status = statusOf(t, opts.completions);
+  const late = differenceInCalendarDays(opts.today, t.date);
+  return {
+    when: format(t.date, 'EEE, MMM d'),
+    what: t.label,
+    extra: [
+      t.stage,
+      t.count ? `${t.count.toLocaleString('en-US')} ${t.type === 'mail' ? 'pieces' : 'records'}` : '',
+      t.ref.category,
+      status ? STATUS_META[status].label : '',
+      late > 0 && !isDoneStatus(status) ? `${late} day${late === 1 ? '' : 's'} late` : '',
+    ].filter(Boolean),
+  };
+};
+
+export const digestSubject = (s: DigestSections, today: Date) =>
+  `Marketing schedule — week of ${format(startOfWeek(today, { weekStartsOn: 1 }), 'MMM d')}${s.overdue.length ? ` (${s.overdue.length} overdue)` : ''}`;
+
+export function renderDigestText(s: DigestSections, opts: RenderOptions): string {
+  const lines = [`Hi${opts.recipient?.name ? ` ${opts.recipient.name}` : ''},`, ''];
+  for (const [title, list] of headings(s, opts.today)) {
+    lines.push(`${title}:`);
+    if (!list.length) lines.push('  Nothing scheduled.');
+    for (const t of list) {
+      const d = describe(t, opts);
+      lines.push(`  - ${d.when} — ${d.what}${d.extra.length ? ` (${d.extra.join(', ')})` : ''}`);
+    }
+    lines.push('');
+  }
+  if (opts.recipient && (opts.recipient.categories?.length || opts.recipient.channels?.length)) {
+    const follows = [...(opts.recipient.categories || []), ...(opts.recipient.channels || []).map((c) => CHANNEL_NAMES[c] || c)];
+    lines.push(`You follow: ${follows.join(', ')}.`);
+  }
+  if (opts.pageUrl) lines.push(`Open the tracker: ${opts.pageUrl}`);
+  return lines.join('\n');
+}
+
+const escapeHtml = (s: unknown) =>
+  String(s ?? '').replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+
+export function renderDigestHtml(s: DigestSections, opts: RenderOptions): string {
+  const section = ([title, list]: [string, ScheduledTask[]]) => {
+    const rows = list
+      .map((t) => {
+        const d = describe(t, opts);
+        return `<tr><td style="padding:4px 12px 4px 0;white-space:nowrap">${escapeHtml(d.when)}</td><td style="padding:4px 12px 4px 0">${escapeHtml(d.what)}</td><td style="padding:4px 0;color:#64748b">${escapeHtml(d.extra.join(' · '))}</td></tr>`;
+      })
+      .join('');
+    const color = title === 'Overdue' && list.length ? '#b91c1c' : '#0f172a';
+    return `<h3 style="margin:16px 0 4px;color:${color}">${escapeHtml(title)} (${list.length})</h3>${
+      list.length ? `<table style="border-collapse:collapse;font-size:14px">${rows}</table>` : '<p style="margin:0;color:#64748b">Nothing scheduled.</p>'
+    }`;
+  };
+  return [
+    '<!doctype html><html><body style="font-family:Arial,Helvetica,sans-serif;color:#0f172a">',
+    `<p>Hi${opts.recipient?.name ? ` ${escapeHtml(opts.recipient.name)}` : ''},</p>`,
+    ...headings(s, opts.today).map(section),
+    opts.pageUrl ? `<p style="margin-top:16px"><a href="${escapeHtml(opts.pageUrl)}">Open the tracker</a></p>` : '',
+    '</body></html>',
+  ].join('\n');
+}
+
+/** The wall-clock date, hour and weekday of `now` in an IANA time zone, as zero-padded strings. */
+const zonedParts = (timeZone: string, now: Date): Record<string, string> =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'short',
+    })
+      .formatToParts(now)
+      .map((p) => [p.type, p.value]),
+  );
+
+/**
+ * The calendar day `now` falls on in the schedule's time zone, as local
+ * midnight — the `today` the sections and renderers compare task dates with,
+ * whatever zone the server runs in.
+ */
+export function digestToday(schedule: DigestSchedule, now: Date): Date {
+  const parts = zonedParts(schedule.timeZone, now);
+  return new Date(Number(parts.year), Number(parts.month) - 1, Number(parts.day));
+}
+
+/**
+ * The send slot `now` falls in (e.g. "2025-10-06T07"), or null when the
+ * schedule doesn't send this hour. A slot is sent at most once.
+ */
+export function digestSlot(schedule: DigestSchedule, now: Date): string | null {
+  const parts = zonedParts(schedule.timeZone, now);
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday);
+  if (!schedule.weekdays.includes(weekday) || Number(parts.hour) !== schedule.hour) return null;
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}`;
+}
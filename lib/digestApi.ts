@@ -0,0 +1,142 @@
+import { BLOCKED_DAYS, CADENCE_RULES, DIGEST } from './config';
+import { emptyCompletionState, type CompletionState } from './completions';
+import {
+  digestSections,
+  digestSlot,
+  digestSubject,
+  digestTaskCount,
+  digestToday,
+  renderDigestHtml,
+  renderDigestText,
+  sectionsFor,
+  type DigestConfig,
+} from './digest';
+import { loadSchedule } from './schedule';
+import { createSheetLoader, sheetErrorResponse, type SheetProxyOptions } from './sheetProxy';
+import { sendMail, smtpConfigFromEnv, type MailMessage, type SmtpConfig } from './smtp';
+import { jsonStore } from './store';
+import { requestWorkspace } from './workspaceApi';
+import type { Workspace } from './workspaces';
+
+export interface DigestLogEntry {
+  at: string;
+  slot: string;
+  to: string;
+  tasks: number;
+  ok: boolean;
+  error?: string;
+}
+
+interface DigestState {
+  /** Slots already sent, newest last. */
+  sent: string[];
+  log: DigestLogEntry[];
+}
+
+const MAX_LOG = 200;
+
+const errorResponse = (status: number, code: string, message: string) =>
+  Response.json({ error: { code, message } }, { status, headers: { 'Cache-Control': 'no-store' } });
+
+/**
+ * Route handlers for `/api/digest`, the email digest of overdue, this week's
+ * and next week's tasks:
+ * - `GET ?preview=html|text[&to=email]` renders the digest (for that recipient's Categories and channels)
+ * - `POST` sends it when the schedule is due this hour and that slot hasn't gone out yet; `?force=1`
+ *   sends now. Call it hourly from a cron job. When `DIGEST_SECRET` is set, POST needs
+ *   `Authorization: Bearer <secret>`.
+ * - `GET ?log=1` returns the delivery log
+ * Each takes `?workspace=<id>` (the default workspace without it) and keeps that workspace's log separately.
+ * Mail goes through the SMTP server in `SMTP_*` (see lib/smtp.ts), so tests can point it at a local sink.
+ */
+export function createDigestHandlers(
+  opts: SheetProxyOptions & { config?: DigestConfig; smtp?: SmtpConfig; send?: (msg: MailMessage) => Promise<void>; file?: string; completionsFile?: string } = {},
+) {
+  const loadSheet = createSheetLoader(opts);
+  const now = opts.now || (() => new Date());
+  const config = opts.config || DIGEST;
+  const send = opts.send || ((msg: MailMessage) => sendMail(opts.smtp || smtpConfigFromEnv(), msg));
+  const storeFor = (suffix: string) => jsonStore<DigestState>(opts.file || `digest${suffix}.json`, () => ({ sent: [], log: [] }));
+  const completionStoreFor = (suffix: string) => jsonStore<CompletionState>(opts.completionsFile || `completions${suffix}.json`, emptyCompletionState);
+
+  async function build({ workspace, suffix }: { workspace: Workspace; suffix: string }, today: Date) {
+    const [{ tasks }, state] = await Promise.all([
+      loadSchedule(workspace.sources, (url, gid) => loadSheet(url, gid), CADENCE_RULES, BLOCKED_DAYS),
+      completionStoreFor(suffix).read(),
+    ]);
+    return { sections: digestSections(tasks, state.completions, { today, overdueDays: config.overdueDays }), completions: state.completions };
+  }
+
+  const pageUrl = (req: Request) => process.env.TRACKER_URL || new URL(req.url).origin;
+
+  async function GET(req: Request): Promise<Response> {
+    const params = new URL(req.url).searchParams;
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    if (params.get('log') === '1') return Response.json(await storeFor(picked.suffix).read(), { headers: { 'Cache-Control': 'no-store' } });
+    const format = params.get('preview') || 'html';
+    const to = params.get('to');
+    const recipient = to ? config.recipients.find((r) => r.email.toLowerCase() === to.toLowerCase()) : undefined;
+    if (to && !recipient) return errorResponse(404, 'unknown_recipient', `${to} isn't a digest recipient.`);
+    try {
+      const today = digestToday(config.schedule, now());
+      const { sections, completions } = await build(picked, today);
+      const mine = recipient ? sectionsFor(sections, recipient) : sections;
+      const render = format === 'text' ? renderDigestText : renderDigestHtml;
+      return new Response(render(mine, { today, completions, recipient, pageUrl: pageUrl(req) }), {
+        headers: { 'Content-Type': `${format === 'text' ? 'text/plain' : 'text/html'}; charset=utf-8`, 'Cache-Control': 'no-store' },
+      });
+    } catch (e) {
+      return sheetErrorResponse(e);
+    }
+  }
+
+  async function POST(req: Request): Promise<Response> {
+    const secret = process.env.DIGEST_SECRET;
+    if (secret && req.headers.get('authorization') !== `Bearer ${secret}`) return errorResponse(401, 'unauthorized', 'Wrong or missing digest secret.');
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    const store = storeFor(picked.suffix);
+    const at = now();
+    const force = new URL(req.url).searchParams.get('force') === '1';
+    const slot = digestSlot(config.schedule, at) || (force ? `manual-${at.toISOString()}` : null);
+    if (!slot) return Response.json({ sent: 0, skipped: 'not_scheduled' });
+    if (!config.recipients.length) return Response.json({ sent: 0, skipped: 'no_recipients' });
+    if ((await store.read()).sent.includes(slot)) return Response.json({ sent: 0, skipped: 'already_sent', slot });
+
+    const today = digestToday(config.schedule, at);
+    let built: Awaited<ReturnType<typeof build>>;
+    try {
+      built = await build(picked, today);
+    } catch (e) {
+      return sheetErrorResponse(e);
+    }
+    const entries: DigestLogEntry[] = [];
+    for (const recipient of config.recipients) {
+      const mine = sectionsFor(built.sections, recipient);
+      const render = { today, completions: built.completions, recipient, pageUrl: pageUrl(req) };
+      const entry: DigestLogEntry = { at: at.toISOString(), slot, to: recipient.email, tasks: digestTaskCount(mine), ok: true };
+      try {
+        await send({
+          from: config.from,
+          to: [recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email],
+          subject: digestSubject(mine, today),
+          text: renderDigestText(mine, render),
+          html: renderDigestHtml(mine, render),
+        });
+      } catch (e) {
+        entry.ok = false;
+        entry.error = e instanceof Error ? e.message : String(e);
+      }
+      entries.push(entry);
+    }
+    // A slot counts as sent once anyone got it; failed recipients are in the log
+    await store.update((state) => {
+      if (entries.some((e) => e.ok)) state.sent = [...state.sent, slot].slice(-MAX_LOG);
+      state.log = [...state.log, ...entries].slice(-MAX_LOG);
+    });
+    return Response.json({ slot, sent: entries.filter((e) => e.ok).length, failed: entries.filter((e) => !e.ok) });
+  }
+
+  return { GET, POST };
+}
@@ -0,0 +1,29 @@
+import Papa from 'papaparse';
+import { toXlsx, type CellValue } from './xlsx';
+
+/** A table as shown on screen, ready to be written as CSV or XLSX. */
+export interface ExportTable {
+  /** Used for the file name and the XLSX sheet name. */
+  title: string;
+  columns: string[];
+  rows: CellValue[][];
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const toCsv = (table: ExportTable) =>
+  Papa.unparse({ fields: table.columns, data: table.rows.map((r) => r.map((v) => (v === null || v === undefined ? '' : v))) });
+
+/** e.g. "Campaign schedule" => "campaign-schedule-2025-09-02.csv". */
+export const exportFileName = (table: ExportTable, format: ExportFormat, today = new Date()) =>
+  `${table.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-${today.toISOString().slice(0, 10)}.${format}`;
+
+export function exportBlob(table: ExportTable, format: ExportFormat): Blob {
+  if (format === 'xlsx') {
+    return new Blob([toXlsx([{ name: table.title, rows: [table.columns, ...table.rows] }])], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+  }
+  // BOM so Excel opens the CSV as UTF-8 (bullets, en dashes)
+  return new Blob(['\uFEFF' + toCsv(table)], { type: 'text/csv;charset=utf-8' });
+}
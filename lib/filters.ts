@@ -0,0 +1,59 @@
+import type { TrackerRow } from './import';
+
+/** Channel choices in the filter bar; 'nomail' picks text/VM-only rows. */
+export type FilterChannel = 'mail' | 'text' | 'vm' | 'nomail';
+
+/** The global filter bar. Empty values don't filter. */
+export interface RowFilter {
+  category: string;
+  county: string;
+  campaign: string;
+  /** Any of these (OR); empty = every channel. */
+  channels: FilterChannel[];
+  /** Words that must all appear in the row's campaign, part, batch, Category, County, source, tags or ID. */
+  text: string;
+}
+
+export const EMPTY_FILTER: RowFilter = { category: '', county: '', campaign: '', channels: [], text: '' };
+
+const norm = (v: unknown) => String(v ?? '').trim().toLowerCase();
+
+export const isFilterActive = (f: RowFilter) => !!(f.category || f.county || f.campaign || f.channels.length || f.text.trim());
+
+const countyOf = (r: Pick<TrackerRow, 'raw'>) => String(r.raw?.County ?? '').trim();
+
+export function rowMatchesFilter(r: TrackerRow, f: RowFilter): boolean {
+  if (f.category && norm(r.category) !== norm(f.category)) return false;
+  if (f.county && norm(countyOf(r)) !== norm(f.county)) return false;
+  if (f.campaign && norm(r.campaign) !== norm(f.campaign)) return false;
+  if (f.channels.length) {
+    const has = { mail: r.hasMail, text: r.hasText, vm: r.hasVM, nomail: !r.hasMail };
+    if (!f.channels.some((c) => has[c])) return false;
+  }
+  const words = norm(f.text).split(/\s+/).filter(Boolean);
+  if (words.length) {
+    const haystack = [r.campaign, r.part, r.batch, r.category, countyOf(r), r.source, r.tags, r.raw?.ID].map(norm).join(' ');
+    if (!words.every((w) => haystack.includes(w))) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether a task of a matching row is shown: with channels picked, only
+ * tasks of those types (and every task of a no-mail row when 'nomail' is).
+ */
+export function taskMatchesChannels(t: { type: string; ref: Pick<TrackerRow, 'hasMail'> }, channels: FilterChannel[]): boolean {
+  if (!channels.length) return true;
+  return channels.includes(t.type as FilterChannel) || (channels.includes('nomail') && !t.ref.hasMail);
+}
+
+/** Distinct Category, County and campaign values for the filter bar's pickers. */
+export function filterOptions(rows: TrackerRow[]) {
+  const distinct = (values: string[]) =>
+    Array.from(new Map(values.filter(Boolean).map((v) => [norm(v), v])).values()).sort((a, b) => a.localeCompare(b));
+  return {
+    categories: distinct(rows.map((r) => String(r.category || '').trim())),
+    counties: distinct(rows.map(countyOf)),
+    campaigns: distinct(rows.map((r) => String(r.campaign || '').trim())),
+  };
+}
@@ -0,0 +1,122 @@
+import { addDays, format, getDay, lastDayOfMonth } from 'date-fns';
+
+export interface Holiday {
+  /** yyyy-MM-dd */
+  date: string;
+  name: string;
+  /** The weekday a weekend holiday is observed on, not the day itself. */
+  observed?: boolean;
+}
+
+/** What to do with a follow-up that lands on a blocked day. */
+export type ShiftPolicy = 'next' | 'previous' | 'none';
+
+export interface BlockedDays {
+  /** Weekdays nothing goes out (0 = Sunday … 6 = Saturday). */
+  weekdays: number[];
+  /** Whether US federal / USPS holidays are blocked. */
+  holidays: boolean;
+  /** Extra blackout dates (yyyy-MM-dd), e.g. a vendor shutdown. */
+  blackoutDates: string[];
+  /** 'next' moves a follow-up to the next open day, 'previous' to the one before; 'none' only flags it. */
+  policy: ShiftPolicy;
+}
+
+export const DEFAULT_BLOCKED_DAYS: BlockedDays = { weekdays: [0], holidays: true, blackoutDates: [], policy: 'next' };
+
+const ymd = (d: Date) => format(d, 'yyyy-MM-dd');
+
+/** The nth given weekday of a month (n = 1 for the first); month is 0-based. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  const first = new Date(year, month, 1);
+  return addDays(first, ((weekday - getDay(first) + 7) % 7) + (n - 1) * 7);
+}
+
+function lastWeekday(year: number, month: number, weekday: number): Date {
+  const last = lastDayOfMonth(new Date(year, month, 1));
+  return addDays(last, -((getDay(last) - weekday + 7) % 7));
+}
+
+const cache = new Map<number, Holiday[]>();
+
+/**
+ * US federal holidays for a year, which the Postal Service also observes (no
+ * regular delivery). Fixed-date holidays on a weekend are also listed on the
+ * weekday they're observed: Saturday => Friday, Sunday => Monday.
+ */
+export function federalHolidays(year: number): Holiday[] {
+  const hit = cache.get(year);
+  if (hit) return hit;
+  const list: Holiday[] = [];
+  const fixed = (month: number, day: number, name: string) => {
+    const d = new Date(year, month, day);
+    list.push({ date: ymd(d), name });
+    // A Saturday New Year's Day is observed in the year before, so it's listed there (below)
+    if (getDay(d) === 6 && !(month === 0 && day === 1)) list.push({ date: ymd(addDays(d, -1)), name, observed: true });
+    if (getDay(d) === 0) list.push({ date: ymd(addDays(d, 1)), name, observed: true });
+  };
+  fixed(0, 1, "New Year's Day");
+  list.push({ date: ymd(nthWeekday(year, 0, 1, 3)), name: 'Martin Luther King Jr. Day' });
+  list.push({ date: ymd(nthWeekday(year, 1, 1, 3)), name: "Washington's Birthday" });
+  list.push({ date: ymd(lastWeekday(year, 4, 1)), name: 'Memorial Day' });
+  fixed(5, 19, 'Juneteenth');
+  fixed(6, 4, 'Independence Day');
+  list.push({ date: ymd(nthWeekday(year, 8, 1, 1)), name: 'Labor Day' });
+  list.push({ date: ymd(nthWeekday(year, 9, 1, 2)), name: 'Columbus Day' });
+  fixed(10, 11, 'Veterans Day');
+  list.push({ date: ymd(nthWeekday(year, 10, 4, 4)), name: 'Thanksgiving Day' });
+  fixed(11, 25, 'Christmas Day');
+  // New Year's Day on a Saturday is observed on Dec 31 of the year before
+  const nextNewYear = new Date(year + 1, 0, 1);
+  if (getDay(nextNewYear) === 6) list.push({ date: `${year}-12-31`, name: "New Year's Day", observed: true });
+  list.sort((a, b) => a.date.localeCompare(b.date));
+  cache.set(year, list);
+  return list;
+}
+
+export function holidayOn(date: Date): Holiday | null {
+  const key = ymd(date);
+  return federalHolidays(date.getFullYear()).find((h) => h.date === key) || null;
+}
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Why nothing should go out on a date ("Sunday", "Labor Day", "Blackout"), or null when it's open. */
+export function blockedReason(date: Date, blocked: BlockedDays): string | null {
+  if (blocked.blackoutDates.includes(ymd(date))) return 'Blackout';
+  if (blocked.holidays) {
+    const h = holidayOn(date);
+    if (h) return h.observed ? `${h.name} (observed)` : h.name;
+  }
+  if (blocked.weekdays.includes(getDay(date))) return WEEKDAY_NAMES[getDay(date)];
+  return null;
+}
+
+/**
+ * Moves a date off blocked days per the policy. Returns the date unchanged
+ * (with the reason) when the policy is 'none' or no open day is found within
+ * two weeks.
+ */
+export function shiftOffBlocked(date: Date, blocked: BlockedDays): { date: Date; reason: string | null; shifted: boolean } {
+  const reason = blockedReason(date, blocked);
+  if (!reason || blocked.policy === 'none') return { date, reason, shifted: false };
+  const step = blocked.policy === 'previous' ? -1 : 1;
+  for (let i = 1; i <= 14; i++) {
+    const candidate = addDays(date, i * step);
+    if (!blockedReason(candidate, blocked)) return { date: candidate, reason, shifted: true };
+  }
+  return { date, reason, shifted: false };
+}
+
+/**
+ * Problems with a mail drop date: not on the drop weekday, or on a holiday or
+ * blackout date. Empty when the date is fine.
+ */
+export function mailDateIssues(date: Date, blocked: BlockedDays, dropWeekday: number): string[] {
+  const issues: string[] = [];
+  if (getDay(date) !== dropWeekday) issues.push(`Not a ${WEEKDAY_NAMES[dropWeekday]}`);
+  if (blocked.blackoutDates.includes(ymd(date))) issues.push('Blackout date');
+  const h = blocked.holidays ? holidayOn(date) : null;
+  if (h) issues.push(h.observed ? `${h.name} (observed)` : h.name);
+  return issues;
+}
@@ -0,0 +1,119 @@
+import { addDays, format } from 'date-fns';
+import { stageForBatch, type ScheduledTask } from './schedule';
+
+/** Which tasks a calendar export or feed includes. Empty lists mean "all". */
+export interface FeedFilter {
+  /** 'mail', 'text' and/or 'vm'. */
+  channels: string[];
+  /** Category values, compared case-insensitively. */
+  categories: string[];
+}
+
+const CHANNEL_NAMES: Record<string, string> = { mail: 'Mail', text: 'Text', vm: 'Voicemail' };
+
+const list = (values: string[]) =>
+  values
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Reads `channel` and `category` query parameters. Either may repeat or hold a
+ * comma-separated list: `?channel=text,vm&category=FL`.
+ */
+export function parseFeedFilter(params: URLSearchParams): FeedFilter {
+  return { channels: list(params.getAll('channel')), categories: list(params.getAll('category')) };
+}
+
+/** Query string for a filter, the inverse of `parseFeedFilter`. */
+export function feedFilterQuery(filter: FeedFilter): string {
+  const params = new URLSearchParams();
+  if (filter.channels.length) params.set('channel', filter.channels.join(','));
+  if (filter.categories.length) params.set('category', filter.categories.join(','));
+  return params.toString();
+}
+
+export function filterTasks(tasks: ScheduledTask[], filter: FeedFilter): ScheduledTask[] {
+  return tasks.filter(
+    (t) =>
+      (!filter.channels.length || filter.channels.includes(t.type)) &&
+      (!filter.categories.length || filter.categories.includes(String(t.ref.category || '').trim().toLowerCase())),
+  );
+}
+
+const escapeText = (s: unknown) =>
+  String(s ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const octets = (ch: string) => {
+  const c = ch.codePointAt(0) || 0;
+  return c < 0x80 ? 1 : c < 0x800 ? 2 : c < 0x10000 ? 3 : 4;
+};
+
+/** Folds content lines longer than 75 octets, as RFC 5545 asks. */
+const fold = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    // Continuation lines start with a space, which counts toward their 75
+    if (size + octets(ch) > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += octets(ch);
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const stamp = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Renders tasks as an iCalendar file. Every task is an all-day event whose UID
+ * is its task key, so calendars update an event in place when its date moves.
+ */
+export function tasksToIcs(tasks: ScheduledTask[], opts: { name?: string; now?: Date } = {}): string {
+  const now = stamp(opts.now || new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Marketing Tracker//Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(opts.name || 'Marketing schedule')}`,
+  ];
+  for (const t of tasks) {
+    const r = t.ref;
+    const partBatch = [r.part, r.batch].filter(Boolean).join(' • ');
+    const stage = t.stage || stageForBatch(r.batchNum);
+    const details = [
+      `Campaign: ${r.campaign}`,
+      partBatch && `Part/Batch: ${partBatch}`,
+      `Stage: ${stage}`,
+      `Count: ${(t.count || 0).toLocaleString('en-US')}`,
+      r.category && `Category: ${r.category}`,
+      r.source && `Source: ${r.source}`,
+      t.originalDate && `Moved from ${format(t.originalDate, 'MMM d')} (${t.blockedReason})`,
+    ].filter(Boolean);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeText(t.idKey)}@marketing-tracker`,
+      `DTSTAMP:${now}`,
+      `DTSTART;VALUE=DATE:${format(t.date, 'yyyyMMdd')}`,
+      `DTEND;VALUE=DATE:${format(addDays(t.date, 1), 'yyyyMMdd')}`,
+      `SUMMARY:${escapeText(t.type === 'mail' && t.count ? `${t.label} (${t.count.toLocaleString('en-US')})` : t.label)}`,
+      `DESCRIPTION:${escapeText(details.join('\n'))}`,
+      `CATEGORIES:${[CHANNEL_NAMES[t.type], r.category].filter(Boolean).map(escapeText).join(',')}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,111 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import { tryParseDate, type TrackerRow } from './import';
+
+/** The task fields identity and reconciliation work with. */
+export interface KeyedTask {
+  type: string;
+  date: Date;
+  idKey: string;
+  touch?: number;
+  ref: TrackerRow;
+}
+
+const clean = (v: unknown) => String(v ?? '').trim().toLowerCase();
+
+/**
+ * Identity of a sheet row that doesn't change when its dates do: the ID
+ * column when the sheet has one, otherwise a fingerprint of campaign, part
+ * and batch.
+ */
+export function rowIdentity(row: Pick<TrackerRow, 'raw' | 'campaign' | 'part' | 'batch'>): string {
+  const id = String(row.raw?.ID ?? '').trim();
+  if (id) return `id:${id}`;
+  return `fp:${[row.campaign, row.part, row.batch].map(clean).join('::')}`;
+}
+
+/**
+ * Gives every row a unique `identity`. Rows that share a fingerprint (same
+ * campaign/part/batch, no ID) are numbered in order of their original Date
+ * column, which stays put when an adjusted date is filled in.
+ */
+export function assignRowIdentities<T extends TrackerRow>(rows: T[]): (T & { identity: string })[] {
+  const order = rows
+    .map((r, i) => ({ r, i, base: rowIdentity(r), t: (tryParseDate(r.raw?.Date) || r.mailDate)?.getTime() || 0 }))
+    .sort((a, b) => a.base.localeCompare(b.base) || a.t - b.t || a.i - b.i);
+  const seen = new Map<string, number>();
+  const ids = new Array<string>(rows.length);
+  for (const { i, base } of order) {
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    ids[i] = n > 1 ? `${base}#${n}` : base;
+  }
+  return rows.map((r, i) => ({ ...r, identity: ids[i] }));
+}
+
+/** Completion key for a task: `type|identity`, plus `|n` for a channel's nth touch. */
+export const taskId = (type: string, identity: string, touch = 1) =>
+  touch > 1 ? `${type}|${identity}|${touch}` : `${type}|${identity}`;
+
+/** Keys from before stable identity: `type|yyyy-MM-dd|campaign|part|batch[|touch]`. */
+export function parseLegacyKey(key: string) {
+  const parts = key.split('|');
+  if (parts.length < 5 || !/^\d{4}-\d{2}-\d{2}$/.test(parts[1])) return null;
+  const touch = parts.length > 5 && /^\d+$/.test(parts[parts.length - 1]) ? Number(parts.pop()) : 1;
+  const [type, date, campaign, part, ...batch] = parts;
+  return { type, date, campaign, part, batch: batch.join('|'), touch };
+}
+
+/**
+ * Matches saved completion keys to the current tasks. Old date-based keys
+ * are moved to the task with the same type, touch and campaign/part/batch
+ * (closest date wins); keys that match nothing are returned as orphans.
+ */
+export function reconcileCompletions(keys: string[], tasks: KeyedTask[]) {
+  const current = new Set(tasks.map((t) => t.idKey));
+  const claimed = new Set(keys.filter((k) => current.has(k)));
+  const rekeys: { from: string; to: string }[] = [];
+  const orphans: string[] = [];
+  for (const key of keys) {
+    if (current.has(key)) continue;
+    const legacy = parseLegacyKey(key);
+    const candidates = legacy
+      ? tasks.filter(
+          (t) =>
+            t.type === legacy.type &&
+            (t.touch || 1) === legacy.touch &&
+            clean(t.ref.campaign) === clean(legacy.campaign) &&
+            clean(t.ref.part) === clean(legacy.part) &&
+            clean(t.ref.batch) === clean(legacy.batch) &&
+            !claimed.has(t.idKey),
+        )
+      : [];
+    if (!candidates.length) {
+      orphans.push(key);
+      continue;
+    }
+    const target = new Date(`${legacy.date}T00:00:00`);
+    const best = candidates.reduce((a, b) =>
+      Math.abs(differenceInCalendarDays(b.date, target)) < Math.abs(differenceInCalendarDays(a.date, target)) ? b : a,
+    );
+    claimed.add(best.idKey);
+    rekeys.push({ from: key, to: best.idKey });
+  }
+  return { rekeys, orphans };
+}
+
+/** Readable summary of a completion key for the orphaned-completions list. */
+export function describeTaskKey(key: string): string {
+  const legacy = parseLegacyKey(key);
+  const typeLabel = (t: string) => (t === 'vm' ? 'VM' : t === 'text' ? 'Text' : t === 'mail' ? 'Mail' : t);
+  if (legacy) {
+    const what = [legacy.campaign, legacy.part, legacy.batch].filter(Boolean).join(' • ');
+    return `${typeLabel(legacy.type)}${legacy.touch > 1 ? ` ${legacy.touch}` : ''} • ${what} (${format(new Date(`${legacy.date}T00:00:00`), 'MMM d, yyyy')})`;
+  }
+  const [type, identity, touch] = key.split('|');
+  const what = String(identity || '')
+    .replace(/^(id|fp):/, (_, kind) => (kind === 'id' ? 'ID ' : ''))
+    .split('::')
+    .filter(Boolean)
+    .join(' • ');
+  return `${typeLabel(type)}${touch ? ` ${touch}` : ''} • ${what}`;
+}
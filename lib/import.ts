@@ -0,0 +1,302 @@
+import { isValid, parse, parseISO } from 'date-fns';
+
+/** A sheet row after parsing: real dates, numbers and channel flags. */
+export interface TrackerRow {
+  /** Index into the loaded rows. */
+  id: number;
+  /** Row number as seen in the sheet (the header is row 1). */
+  line: number;
+  raw: Record<string, any>;
+  mailDate: Date;
+  hasMail: boolean;
+  hasText: boolean;
+  hasVM: boolean;
+  count: number;
+  campaign: string;
+  category: string;
+  /** Tags and Channels cells joined, for cadence rule matching. */
+  tags: string;
+  part: string;
+  batch: string;
+  batchNum: number | null;
+  cost: number;
+  /** Label and id of the sheet source the row came from, once sources are merged. */
+  source?: string;
+  sourceId?: string;
+  /** Stable row identity used in task keys (see lib/identity.ts). */
+  identity?: string;
+  /** Calls/Leads/Contracts/Revenue from the sheet or a results import (see lib/results.ts). */
+  results?: ResultCounts | null;
+}
+
+/** What came back from a row's drop. Missing cells stay undefined. */
+export interface ResultCounts {
+  calls?: number;
+  leads?: number;
+  contracts?: number;
+  revenue?: number;
+}
+
+export const RESULT_COLUMNS = ['Calls', 'Leads', 'Contracts', 'Revenue'] as const;
+
+export interface ImportIssue {
+  /** Sheet row number; 1 is the header row. */
+  line: number;
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+/** What happened to the loaded rows, so nothing disappears silently. */
+export interface ImportReport {
+  totalRows: number;
+  acceptedRows: number;
+  missingColumns: string[];
+  /** Rows left out of the schedule entirely. */
+  rejected: ImportIssue[];
+  /** Values that were read differently from how they appear in the sheet. */
+  coerced: ImportIssue[];
+  /** Channels/Tags tokens that aren't a channel (or a cadence rule tag). */
+  unknownTokens: ImportIssue[];
+  /** Problems the CSV parser itself reported (e.g. a row with extra cells). */
+  parseErrors: ImportIssue[];
+}
+
+export const REQUIRED_COLUMNS = ['Date', 'Campaign', 'Count'];
+
+/**
+ * Parses a sheet date. Accepts yyyy-MM-dd, MMM d, yyyy, M/d/yyyy and M/d/yy,
+ * then falls back to ISO and the browser's own parser.
+ */
+export function tryParseDate(value: unknown): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  const asStr = String(value).trim();
+  const tryFormats = ['yyyy-MM-dd', 'MMM d, yyyy', 'MMMM d, yyyy', 'M/d/yyyy', 'MM/dd/yyyy', 'M/d/yy', 'MM/dd/yy'];
+  for (const f of tryFormats) {
+    try {
+      const d = parse(asStr, f, new Date());
+      if (isValid(d)) return d;
+    } catch {}
+  }
+  const iso = parseISO(asStr);
+  if (isValid(iso)) return iso;
+  const loose = new Date(asStr);
+  if (isValid(loose)) return loose;
+  return null;
+}
+
+/** Extracts the first numeric portion from part/batch text (e.g. "Batch 3" => 3). */
+export function inferBatchNum(part: unknown, batch: unknown): number | null {
+  const pick = String(part || '') + ' ' + String(batch || '');
+  let digits = '';
+  for (const ch of pick) {
+    if (ch >= '0' && ch <= '9') digits += ch;
+  }
+  const num = parseInt(digits, 10);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Reads a whole-number count, tolerating thousands separators and spaces
+ * ("2,444" => 2444). Returns null when the cell isn't a number.
+ */
+export function parseCount(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const s = String(value ?? '').replace(/[,\s]/g, '');
+  if (!s || !/^-?\d+(\.\d+)?$/.test(s)) return null;
+  return Number(s);
+}
+
+/**
+ * Reads a money amount as typed in a sheet: "$1,234.50", "1234.5", "USD 99",
+ * "(45.00)" or "-$45" (negative, e.g. a refund). Returns null when the cell
+ * isn't an amount.
+ */
+export function parseCurrency(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  let s = String(value ?? '').trim();
+  if (!s) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  s = s.replace(/^usd\s*|\s*usd$/i, '').replace(/[$,\s]/g, '');
+  if (s.startsWith('-')) {
+    negative = !negative;
+    s = s.slice(1);
+  }
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(s)) return null;
+  const n = Number(s);
+  return negative ? -n : n;
+}
+
+/**
+ * Reads the optional result columns of a row (keyed by canonical names).
+ * `results` is null when none are filled in; `invalid` lists unreadable cells.
+ */
+export function readResults(r: Record<string, any>): { results: ResultCounts | null; invalid: { column: string; value: string }[] } {
+  const results: ResultCounts = {};
+  const invalid: { column: string; value: string }[] = [];
+  for (const column of RESULT_COLUMNS) {
+    const raw = r?.[column];
+    if (!String(raw ?? '').trim()) continue;
+    const value = column === 'Revenue' ? parseCurrency(raw) : parseCount(raw);
+    if (value === null) invalid.push({ column, value: String(raw) });
+    else results[column.toLowerCase() as keyof ResultCounts] = value;
+  }
+  return { results: Object.keys(results).length ? results : null, invalid };
+}
+
+const CHANNEL_TOKEN = /^(no[-\s]?)?(mail|text|sms|voicemail|voice\s*mail|vm|vmail)$/;
+
+const splitTokens = (s: unknown) =>
+  String(s ?? '')
+    .split(/[,;/|]/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+/**
+ * Works out which channels a row uses from its Tags and Channels cells.
+ * No channel tokens at all means Mail + Text + Voicemail; any mail row also
+ * gets text and voicemail unless they're explicitly excluded ("No Text").
+ */
+export function parseChannels(tags: unknown, channels: unknown) {
+  const src = String(tags || '').toLowerCase() + ' ' + String(channels || '').toLowerCase();
+  const hasNoMailTag = /\bno[-\s]?mail\b/.test(src);
+  const hasMailToken = /\bmail\b/.test(src); // strict token; won't match 'voicemail'
+  const hasTextToken = /\b(text|sms)\b/.test(src);
+  const hasVmToken = /\b(voicemail|voice\s*mail|vm|vmail)\b/.test(src);
+  const anyToken = /\b(mail|text|sms|voicemail|voice\s*mail|vm|vmail)\b/.test(src);
+  const noText = /\bno[-\s]?(text|sms)\b/.test(src);
+  const noVM = /\bno[-\s]?(voicemail|voice\s*mail|vm|vmail)\b/.test(src);
+  let hasMail = hasMailToken && !hasNoMailTag;
+  let hasText = hasTextToken;
+  let hasVM = hasVmToken;
+  if (!anyToken) {
+    hasMail = !hasNoMailTag;
+    hasText = true;
+    hasVM = true;
+  }
+  if (hasMail && !noText) hasText = true;
+  if (hasMail && !noVM) hasVM = true;
+  if (noText) hasText = false;
+  if (noVM) hasVM = false;
+  return { hasMail, hasText, hasVM };
+}
+
+const isBlankRow = (r: Record<string, any>) => Object.values(r || {}).every((v) => String(v ?? '').trim() === '');
+
+/**
+ * Normalizes loaded sheet rows and records every row that was dropped and
+ * every value that was coerced along the way.
+ *
+ * @param rows Rows keyed by header, in sheet order (blank rows included so
+ *   line numbers match the sheet).
+ * @param opts.fields Header names as loaded; defaults to the keys of the rows.
+ * @param opts.knownTags Tags that mean something elsewhere (cadence rules) and
+ *   shouldn't be reported as unknown.
+ * @param opts.parseErrors Errors from Papa.parse, passed through to the report.
+ */
+export function normalizeRows(
+  rows: Record<string, any>[],
+  opts: { fields?: string[]; knownTags?: string[]; parseErrors?: { row?: number; message: string }[] } = {},
+): { data: TrackerRow[]; report: ImportReport } {
+  const list = rows || [];
+  const fields = opts.fields || Array.from(new Set(list.flatMap((r) => Object.keys(r || {}))));
+  const known = new Set((opts.knownTags || []).map((t) => t.toLowerCase()));
+  const report: ImportReport = {
+    totalRows: 0,
+    acceptedRows: 0,
+    missingColumns: REQUIRED_COLUMNS.filter((c) => !fields.includes(c)),
+    rejected: [],
+    coerced: [],
+    unknownTokens: [],
+    parseErrors: (opts.parseErrors || []).map((e) => ({
+      line: typeof e.row === 'number' ? e.row + 2 : 0,
+      message: e.message,
+    })),
+  };
+
+  const data: TrackerRow[] = [];
+  list.forEach((r, i) => {
+    const line = i + 2;
+    if (isBlankRow(r)) return;
+    report.totalRows += 1;
+
+    const adjusted = r['Red - Adjusted Dates'];
+    let mailDate = tryParseDate(adjusted || r.Date);
+    if (!mailDate && adjusted) {
+      mailDate = tryParseDate(r.Date);
+      if (mailDate) {
+        report.coerced.push({ line, column: 'Red - Adjusted Dates', value: String(adjusted), message: 'Adjusted date not understood; using Date instead' });
+      }
+    }
+    if (!mailDate) {
+      const value = String(adjusted || r.Date || '');
+      report.rejected.push({
+        line,
+        column: adjusted ? 'Red - Adjusted Dates' : 'Date',
+        value,
+        message: value ? 'Date not understood' : 'Date is empty',
+      });
+      return;
+    }
+
+    let count = parseCount(r.Count);
+    if (count === null) {
+      report.coerced.push({ line, column: 'Count', value: String(r.Count ?? ''), message: r.Count ? 'Not a number; counted as 0' : 'Empty; counted as 0' });
+      count = 0;
+    } else if (typeof r.Count === 'string' && String(count) !== r.Count.trim()) {
+      report.coerced.push({ line, column: 'Count', value: r.Count, message: `Read as ${count}` });
+    }
+
+    let cost = parseCurrency(r.Cost);
+    if (cost === null) {
+      if (String(r.Cost ?? '').trim()) report.coerced.push({ line, column: 'Cost', value: String(r.Cost), message: 'Not an amount; cost treated as 0' });
+      cost = 0;
+    }
+
+    if (!String(r.Campaign || '').trim()) {
+      report.coerced.push({ line, column: 'Campaign', value: '', message: 'Empty; shown as (Unnamed)' });
+    }
+
+    for (const column of ['Channels', 'Tags']) {
+      for (const token of splitTokens(r[column])) {
+        const t = token.toLowerCase();
+        if (CHANNEL_TOKEN.test(t)) continue;
+        if (column === 'Tags' && known.has(t)) continue;
+        report.unknownTokens.push({ line, column, value: token, message: 'Not a channel (Mail, Text/SMS, Voicemail/VM or No …)' });
+      }
+    }
+
+    const { results, invalid } = readResults(r);
+    for (const bad of invalid) report.coerced.push({ line, column: bad.column, value: bad.value, message: 'Not a number; left out of results' });
+
+    const part = r.Part || '';
+    const batch = r.Batch || '';
+    data.push({
+      id: i,
+      line,
+      raw: r,
+      mailDate,
+      ...parseChannels(r.Tags, r.Channels),
+      count,
+      campaign: r.Campaign || '(Unnamed)',
+      category: r.Category || '',
+      tags: [r.Tags, r.Channels].filter(Boolean).join(','),
+      part,
+      batch,
+      batchNum: inferBatchNum(part, batch),
+      cost,
+      results,
+    });
+  });
+  report.acceptedRows = data.length;
+  return { data, report };
+}
+
+/** Number of issues worth the user's attention. */
+export const importIssueCount = (report: ImportReport) =>
+  report.missingColumns.length + report.rejected.length + report.coerced.length + report.unknownTokens.length + report.parseErrors.length;
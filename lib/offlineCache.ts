@@ -0,0 +1,60 @@
+/**
+ * Last good load of each sheet, kept in the browser's IndexedDB so the page
+ * can show real (if stale) data when a refresh fails or the device is
+ * offline. Keyed by `sourceProfileKey`, so the same sheet is shared between
+ * workspaces. Every call resolves to null / does nothing when IndexedDB isn't
+ * available (server rendering, private windows).
+ */
+
+export interface CachedSheet {
+  /** `sourceProfileKey` of the source. */
+  key: string;
+  label: string;
+  url: string;
+  gid?: string;
+  /** Parsed CSV as `parseSheetCsv` returns it. */
+  rows: Record<string, any>[];
+  fields: string[];
+  errors: unknown[];
+  /** ISO time the sheet was fetched. */
+  fetchedAt: string;
+}
+
+const DB_NAME = 'marketing-tracker';
+const STORE = 'sheets';
+
+let opening: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  opening =
+    opening ||
+    new Promise((resolve) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'key' });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    });
+  return opening;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  return openDb().then(
+    (db) =>
+      db &&
+      new Promise<T | null>((resolve) => {
+        try {
+          const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+          req.onsuccess = () => resolve(req.result ?? null);
+          req.onerror = () => resolve(null);
+        } catch {
+          resolve(null);
+        }
+      }),
+  );
+}
+
+export const readCachedSheet = (key: string) => run<CachedSheet>('readonly', (store) => store.get(key));
+
+export const saveCachedSheet = (sheet: CachedSheet) => run('readwrite', (store) => store.put(sheet)).then(() => undefined);
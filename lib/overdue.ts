@@ -0,0 +1,40 @@
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { Completion } from './completions';
+import type { ScheduledTask } from './schedule';
+import { effectiveStatus, isDoneStatus } from './status';
+
+/** Age groups of the Overdue panel, by days past the task date (`max` inclusive; the last has none). */
+export const OVERDUE_AGES: { label: string; max?: number }[] = [
+  { label: 'Up to a week', max: 7 },
+  { label: '1–2 weeks', max: 14 },
+  { label: '2–4 weeks', max: 28 },
+  { label: 'Older', max: undefined },
+];
+
+export interface OverdueGroup {
+  label: string;
+  /** Oldest first. */
+  tasks: ScheduledTask[];
+}
+
+/**
+ * Text and VM follow-ups dated before today that aren't sent or skipped
+ * (failed ones included, they still need doing). Mail drops aren't counted;
+ * their status is tracked on the print workflow instead.
+ */
+export function overdueTasks(tasks: ScheduledTask[], completions: Record<string, Completion>, today: Date): ScheduledTask[] {
+  const start = startOfDay(today);
+  return tasks
+    .filter((t) => t.type !== 'mail' && t.date < start && !isDoneStatus(effectiveStatus(completions[t.idKey], t.type)))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/** Overdue tasks split into `OVERDUE_AGES`, leaving out empty groups. */
+export function groupOverdue(overdue: ScheduledTask[], today: Date): OverdueGroup[] {
+  const groups = OVERDUE_AGES.map((age) => ({ label: age.label, max: age.max, tasks: [] as ScheduledTask[] }));
+  for (const t of overdue) {
+    const days = differenceInCalendarDays(today, t.date);
+    (groups.find((g) => g.max === undefined || days <= g.max) || groups[groups.length - 1]).tasks.push(t);
+  }
+  return groups.filter((g) => g.tasks.length).map(({ label, tasks }) => ({ label, tasks }));
+}
@@ -0,0 +1,120 @@
+import { addDays, format } from 'date-fns';
+import { mailDateIssues, type BlockedDays } from './holidays';
+import { monthKey, targetForMonth, type MailDrop, type TargetConfig } from './targets';
+import type { SheetSource } from './sources';
+
+/** Source id and label the draft rows carry once merged into the schedule. */
+export const DRAFT_SOURCE: SheetSource = { id: 'draft', label: 'Draft', url: '' };
+
+/** A campaign being planned: its whole list split into batches on consecutive drop days. */
+export interface DraftPlan {
+  id: string;
+  campaign: string;
+  category: string;
+  part: string;
+  /** Channels cell for the rows, e.g. "Mail,Text,Voicemail". */
+  channels: string;
+  /** Total list size to split. */
+  total: number;
+  batches: number;
+  /** First drop on or after this date (yyyy-MM-dd). */
+  start: string;
+  /** Pieces per batch; empty means an even split. */
+  counts: number[];
+}
+
+export interface MonthFit {
+  monthKey: string;
+  min: number;
+  max: number;
+  /** Scheduled pieces in the month without the plan. */
+  existing: number;
+  /** Pieces the plan adds to the month. */
+  added: number;
+  status: 'below' | 'within' | 'above';
+}
+
+/** Splits `total` into `n` whole parts that differ by at most one. */
+export const splitEvenly = (total: number, n: number) =>
+  Array.from({ length: Math.max(0, n) }, (_, i) => Math.floor(total / n) + (i < total % n ? 1 : 0));
+
+/**
+ * The plan's drop days: the next `batches` drop weekdays on or after `start`,
+ * skipping holidays and blackout dates.
+ */
+export function draftDropDates(plan: Pick<DraftPlan, 'start' | 'batches'>, dropWeekday: number, blocked?: BlockedDays): Date[] {
+  const dates: Date[] = [];
+  let d = new Date(`${plan.start}T00:00:00`);
+  if (isNaN(d.getTime())) return dates;
+  d = addDays(d, (dropWeekday - d.getDay() + 7) % 7);
+  for (let guard = 0; dates.length < plan.batches && guard < 520; guard++, d = addDays(d, 7)) {
+    if (!blocked || mailDateIssues(d, blocked, dropWeekday).length === 0) dates.push(d);
+  }
+  return dates;
+}
+
+/** Pieces per batch: the saved counts when they still match the batch count, otherwise an even split. */
+export const draftCounts = (plan: DraftPlan) =>
+  plan.counts.length === plan.batches ? plan.counts : splitEvenly(plan.total, plan.batches);
+
+/**
+ * The plan as sheet rows (canonical column names), ready to normalize with
+ * the loaded rows or to paste into the sheet. Batches with no pieces are left
+ * out; the others keep their batch numbers.
+ */
+export function draftRows(plan: DraftPlan, dates: Date[]): Record<string, string | number>[] {
+  const counts = draftCounts(plan);
+  return dates.flatMap((date, i) => (counts[i] > 0 ? [{
+    Date: format(date, 'yyyy-MM-dd'),
+    Campaign: plan.campaign,
+    Category: plan.category,
+    Part: plan.part,
+    Batch: `B${i + 1}`,
+    Count: counts[i],
+    Channels: plan.channels,
+  }] : []));
+}
+
+/** How each month the plan touches lands against its target with and without the plan. */
+export function monthFits(dates: Date[], counts: number[], drops: MailDrop[], targets: TargetConfig): MonthFit[] {
+  const months = Array.from(new Set(dates.map(monthKey)));
+  return months.map((key) => {
+    const target = targetForMonth(targets, key);
+    const existing = drops.filter((d) => monthKey(d.mailDate) === key).reduce((s, d) => s + d.count, 0);
+    const added = dates.reduce((s, d, i) => (monthKey(d) === key ? s + (counts[i] || 0) : s), 0);
+    const total = existing + added;
+    return { monthKey: key, min: target.min, max: target.max, existing, added, status: total < target.min ? 'below' : total > target.max ? 'above' : 'within' };
+  });
+}
+
+/**
+ * Suggests pieces per batch that keep each month in its target range: every
+ * month first gets what it needs to reach its minimum, then the rest fills
+ * each month's headroom in date order. Whatever can't fit anywhere is spread
+ * over all batches (`fits` is false). Within a month the pieces are split
+ * evenly across its drop days.
+ */
+export function suggestSplit(total: number, dates: Date[], drops: MailDrop[], targets: TargetConfig): { counts: number[]; fits: boolean } {
+  const months = Array.from(new Set(dates.map(monthKey)));
+  const existing = (key: string) => drops.filter((d) => monthKey(d.mailDate) === key).reduce((s, d) => s + d.count, 0);
+  const perMonth = new Map(months.map((key) => [key, 0]));
+  let left = total;
+  for (const key of months) {
+    const give = Math.min(left, Math.max(0, targetForMonth(targets, key).min - existing(key)));
+    perMonth.set(key, give);
+    left -= give;
+  }
+  for (const key of months) {
+    const room = Math.max(0, targetForMonth(targets, key).max - existing(key) - perMonth.get(key));
+    const give = Math.min(left, room);
+    perMonth.set(key, perMonth.get(key) + give);
+    left -= give;
+  }
+  const counts = new Array<number>(dates.length).fill(0);
+  for (const key of months) {
+    const idx = dates.map((d, i) => (monthKey(d) === key ? i : -1)).filter((i) => i >= 0);
+    splitEvenly(perMonth.get(key), idx.length).forEach((n, j) => (counts[idx[j]] += n));
+  }
+  splitEvenly(left, dates.length).forEach((n, i) => (counts[i] += n));
+  return { counts, fits: left === 0 };
+}
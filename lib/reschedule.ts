@@ -0,0 +1,93 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import type { ExportTable } from './export';
+import type { TrackerRow } from './import';
+import { monthKey } from './targets';
+
+/**
+ * One move made in the calendar, not yet in the sheet. Rows are identified the
+ * same way task keys are (see lib/identity.ts), so a move survives a reload.
+ */
+export interface DateChange {
+  identity: string;
+  /** Readable row description for the change log. */
+  label: string;
+  /** Mail date before and after the move (yyyy-MM-dd). */
+  from: string;
+  to: string;
+  /** When the move was made (ISO). */
+  at: string;
+}
+
+export interface MonthTotalChange {
+  monthKey: string;
+  before: number;
+  after: number;
+}
+
+const day = (s: string) => new Date(`${s}T00:00:00`);
+
+/** The latest move per row identity. */
+export function latestChanges(changes: DateChange[]): Map<string, DateChange> {
+  const byIdentity = new Map<string, DateChange>();
+  for (const c of changes) byIdentity.set(c.identity, c);
+  return byIdentity;
+}
+
+/**
+ * Rows with their pending moves applied: each moved row's mail date is the
+ * last move's date, so its follow-ups recompute from there.
+ */
+export function applyDateChanges<T extends TrackerRow>(rows: T[], changes: DateChange[]): T[] {
+  if (!changes.length) return rows;
+  const latest = latestChanges(changes);
+  return rows.map((r) => {
+    const c = latest.get(r.identity);
+    return c ? { ...r, mailDate: day(c.to) } : r;
+  });
+}
+
+/**
+ * The move for dragging a task to `target`. The sheet only stores the row's
+ * date, so a follow-up moves its whole row by the same number of days (the
+ * mail drop and every other touch move with it).
+ */
+export function proposeMove(task: { date: Date; ref: TrackerRow }, target: Date, at = new Date()): DateChange | null {
+  const delta = differenceInCalendarDays(target, task.date);
+  if (!delta || !task.ref.identity) return null;
+  const r = task.ref;
+  return {
+    identity: r.identity,
+    label: [r.campaign, r.part, r.batch].filter(Boolean).join(' • '),
+    from: format(r.mailDate, 'yyyy-MM-dd'),
+    to: format(addDays(r.mailDate, delta), 'yyyy-MM-dd'),
+    at: at.toISOString(),
+  };
+}
+
+/** Mail totals of the months a move touches, before and after it. */
+export function monthTotalsForMove(rows: TrackerRow[], change: DateChange): MonthTotalChange[] {
+  const after = applyDateChanges(rows, [change]);
+  const keys = Array.from(new Set([change.from.slice(0, 7), change.to.slice(0, 7)]));
+  const total = (list: TrackerRow[], key: string) => list.filter((r) => r.hasMail && monthKey(r.mailDate) === key).reduce((s, r) => s + r.count, 0);
+  return keys.map((key) => ({ monthKey: key, before: total(rows, key), after: total(after, key) }));
+}
+
+/**
+ * The change set to paste into the sheet: one line per moved row with its new
+ * "Red - Adjusted Dates" value. `rows` is the schedule without the pending
+ * moves; rows moved back to their sheet date are left out.
+ */
+export function changeSetTable(changes: DateChange[], rows: TrackerRow[]): ExportTable {
+  const byIdentity = new Map(rows.map((r) => [r.identity, r]));
+  const lines = Array.from(latestChanges(changes).values())
+    .filter((c) => byIdentity.has(c.identity) && c.to !== format(byIdentity.get(c.identity).mailDate, 'yyyy-MM-dd'))
+    .map((c) => {
+      const r = byIdentity.get(c.identity);
+      return [c.identity.replace(/^id:/, ''), r.source || '', r.line, r.campaign, r.part, r.batch, format(r.mailDate, 'M/d/yyyy'), format(day(c.to), 'M/d/yyyy')];
+    });
+  return {
+    title: 'Adjusted dates',
+    columns: ['Identity', 'Source', 'Row', 'Campaign', 'Part', 'Batch', 'Was', 'Red - Adjusted Dates'],
+    rows: lines,
+  };
+}
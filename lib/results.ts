@@ -0,0 +1,125 @@
+import { resolveColumns, applyMapping } from './columns';
+import { readResults, type ResultCounts, type TrackerRow } from './import';
+import { stageForBatch } from './schedule';
+
+export type { ResultCounts };
+
+export interface ResponseSummary {
+  key: string;
+  pieces: number;
+  cost: number;
+  calls: number;
+  leads: number;
+  contracts: number;
+  revenue: number;
+  /** Rows that reported any result. */
+  reported: number;
+  /** Calls per mailed piece; null without pieces. */
+  responseRate: number | null;
+  costPerLead: number | null;
+  /** (revenue − cost) / cost; null without cost. */
+  roi: number | null;
+}
+
+const clean = (v: unknown) => String(v ?? '').trim().toLowerCase();
+
+/** Join key for results: campaign, part and batch, like a row's fingerprint identity. */
+export const resultKey = (r: { campaign?: unknown; part?: unknown; batch?: unknown }) =>
+  [r.campaign, r.part, r.batch].map(clean).join('::');
+
+/**
+ * Parses a results import (a sheet or CSV with Campaign, Part, Batch and any
+ * of the result columns). Rows for the same campaign/part/batch are added up.
+ */
+export function normalizeResults(rows: Record<string, any>[], fields: string[]) {
+  const { mapping } = resolveColumns(fields);
+  const byKey = new Map<string, ResultCounts & { line: number }>();
+  const skipped: { line: number; message: string }[] = [];
+  applyMapping(rows, mapping).forEach((r, i) => {
+    const line = i + 2;
+    if (!String(r.Campaign ?? '').trim()) {
+      if (Object.values(r).some((v) => String(v ?? '').trim())) skipped.push({ line, message: 'No campaign' });
+      return;
+    }
+    const { results, invalid } = readResults(r);
+    for (const bad of invalid) skipped.push({ line, message: `${bad.column} "${bad.value}" isn't a number` });
+    if (!results) return;
+    const key = resultKey({ campaign: r.Campaign, part: r.Part, batch: r.Batch });
+    byKey.set(key, addResults(byKey.get(key) || { line }, results) as ResultCounts & { line: number });
+  });
+  return { byKey, skipped, missingCampaign: !mapping.Campaign };
+}
+
+function addResults(a: ResultCounts, b: ResultCounts): ResultCounts {
+  const out = { ...a };
+  for (const k of ['calls', 'leads', 'contracts', 'revenue'] as const) if (b[k] !== undefined) out[k] = (out[k] || 0) + b[k];
+  return out;
+}
+
+/**
+ * Attaches imported results to schedule rows by campaign/part/batch. Imported
+ * values replace the sheet's own for the same metric. When several rows share
+ * a campaign/part/batch, the first (by identity) gets the results so nothing
+ * is counted twice. Keys that match no row are returned as unmatched.
+ */
+export function joinResults<T extends TrackerRow>(data: T[], imported?: Map<string, ResultCounts & { line?: number }>) {
+  const unmatched = new Set(imported ? imported.keys() : []);
+  const rows = data.map((r) => {
+    const key = resultKey(r);
+    const extra = imported?.get(key);
+    if (!extra || String(r.identity || '').includes('#') || !unmatched.has(key)) return r;
+    unmatched.delete(key);
+    const { line, ...values } = extra;
+    return { ...r, results: { ...(r.results || {}), ...values } };
+  });
+  return { rows, unmatched: Array.from(unmatched).map((key) => ({ key, line: imported.get(key)?.line })) };
+}
+
+function summarize(key: string, rows: TrackerRow[]): ResponseSummary {
+  const s = { key, pieces: 0, cost: 0, calls: 0, leads: 0, contracts: 0, revenue: 0, reported: 0 };
+  for (const r of rows) {
+    if (r.hasMail) s.pieces += r.count || 0;
+    s.cost += r.cost || 0;
+    if (!r.results) continue;
+    s.reported += 1;
+    s.calls += r.results.calls || 0;
+    s.leads += r.results.leads || 0;
+    s.contracts += r.results.contracts || 0;
+    s.revenue += r.results.revenue || 0;
+  }
+  return {
+    ...s,
+    responseRate: s.pieces ? s.calls / s.pieces : null,
+    costPerLead: s.leads ? s.cost / s.leads : null,
+    roi: s.cost ? (s.revenue - s.cost) / s.cost : null,
+  };
+}
+
+function groupBy(rows: TrackerRow[], keyOf: (r: TrackerRow) => string) {
+  const groups = new Map<string, TrackerRow[]>();
+  for (const r of rows) {
+    const k = keyOf(r);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k).push(r);
+  }
+  return Array.from(groups.entries()).map(([k, list]) => summarize(k, list));
+}
+
+/**
+ * Response rate, cost per lead and ROI per campaign. Only rows that reported
+ * results count, so batches still waiting on responses don't drag rates down.
+ */
+export const responseByCampaign = (rows: TrackerRow[]) =>
+  groupBy(
+    rows.filter((r) => r.results),
+    (r) => r.campaign,
+  ).sort((a, b) => a.key.localeCompare(b.key));
+
+const STAGE_ORDER = (stage: string) => (stage === 'Initial' ? 1 : stage === 'Final' ? 5 : parseInt(stage, 10) || 3);
+
+/** The same metrics by batch stage (Initial, 2nd–4th Follow-up, Final), in mailing order. */
+export const responseByStage = (rows: TrackerRow[]) =>
+  groupBy(
+    rows.filter((r) => r.results),
+    (r) => stageForBatch(r.batchNum),
+  ).sort((a, b) => STAGE_ORDER(a.key) - STAGE_ORDER(b.key));
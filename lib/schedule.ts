@@ -0,0 +1,160 @@
+import Papa from 'papaparse';
+import { followUpsFor, type CadenceRule } from './cadence';
+import { resolveColumns, applyMapping, mappedFields, type MappingProfile } from './columns';
+import { shiftOffBlocked, type BlockedDays } from './holidays';
+import { normalizeRows, type TrackerRow } from './import';
+import { assignRowIdentities, taskId } from './identity';
+import { applySourceDefaults, mergeSources, type SheetSource } from './sources';
+
+/** One entry of the computed task list: a mail drop or a text/voicemail touch. */
+export interface ScheduledTask {
+  type: 'mail' | 'text' | 'vm';
+  date: Date;
+  /** Task key used for statuses (see lib/identity.ts). */
+  idKey: string;
+  count: number;
+  ref: TrackerRow;
+  /** Follow-ups only: the row's stage and which touch of its channel this is. */
+  stage?: string;
+  touch?: number;
+  /** Follow-ups moved off a blocked day: the cadence date and why it was blocked. */
+  originalDate?: Date;
+  blockedReason?: string;
+  label: string;
+}
+
+export interface ParsedSheet {
+  rows: Record<string, any>[];
+  fields: string[] | null;
+  errors: { row?: number; code?: string; message: string }[];
+}
+
+const ordinal = (n: number) => {
+  const s = ['th', 'st', 'nd', 'rd'],
+    v = n % 100;
+  return n + (s[(v - 20) % 10] || s[v] || s[0]);
+};
+
+/** Stage name for a batch number: Initial, 2nd–4th Follow-up, Final. */
+export const stageForBatch = (n: number | null) => {
+  if (!n || n <= 1) return 'Initial';
+  if (n >= 5) return 'Final';
+  return ordinal(n) + ' Follow-up';
+};
+
+/**
+ * Parses sheet CSV. Blank lines are kept (and skipped during normalization) so
+ * row numbers in the import report match the sheet.
+ */
+export function parseSheetCsv(text: string): ParsedSheet {
+  const res = Papa.parse(text, { header: true, skipEmptyLines: false });
+  const blank = (row: Record<string, any>) => Object.values(row || {}).every((v) => !String(v ?? '').trim());
+  return {
+    rows: res.data,
+    fields: res.meta.fields || null,
+    errors: res.errors.filter((e) => !(e.code === 'TooFewFields' && blank(res.data[e.row]))),
+  };
+}
+
+/**
+ * Resolves one source's headers to the tracker's columns (aliases plus the
+ * saved profile), fills the source's default Category, then normalizes with a
+ * report of what was dropped or coerced.
+ */
+export function normalizeSource(
+  source: SheetSource,
+  sheet: ParsedSheet,
+  opts: { profile?: MappingProfile | null; rules?: CadenceRule[] } = {},
+) {
+  const csvFields = sheet.fields || Array.from(new Set(sheet.rows.flatMap((r) => Object.keys(r || {}))));
+  const { mapping, missingRequired } = resolveColumns(csvFields, opts.profile);
+  const { data, report } = normalizeRows(applySourceDefaults(applyMapping(sheet.rows, mapping), source), {
+    fields: mappedFields(mapping),
+    knownTags: (opts.rules || []).flatMap((rule) => rule.match?.tag || []),
+    parseErrors: sheet.errors,
+  });
+  return { source, csvFields, mapping, missingRequired, data, report };
+}
+
+/** Merges normalized sources into one schedule and gives every row its stable identity. */
+export function mergeSchedule(loaded: { source: SheetSource; data: TrackerRow[] }[]) {
+  const merged = mergeSources(loaded);
+  return { ...merged, data: assignRowIdentities(merged.data) };
+}
+
+/**
+ * Creates the task list: mail (if any) at mailDate, then the text/vm touches of
+ * the matching cadence rule (text/vm-only campaigns start on Date). With
+ * `blocked`, follow-ups landing on a Sunday, holiday or blackout date move per
+ * its policy; mail dates are never moved (see `mailDateIssues`).
+ */
+export function buildTasks(data: TrackerRow[], rules: CadenceRule[], blocked?: BlockedDays): ScheduledTask[] {
+  const items: ScheduledTask[] = [];
+  for (const r of data) {
+    const partBatch = [r.part, r.batch].filter(Boolean).join(' • ');
+    const base = { count: r.count, ref: r };
+    if (r.hasMail) {
+      items.push({ ...base, type: 'mail', date: r.mailDate, idKey: taskId('mail', r.identity), label: `Mail • ${r.campaign}${partBatch ? ` • ${partBatch}` : ''}` });
+    }
+    const stage = stageForBatch(r.batchNum);
+    for (const f of followUpsFor(r, rules)) {
+      const name = (f.channel === 'text' ? 'Text' : 'VM') + (f.touch > 1 ? ` ${f.touch}` : '');
+      const moved = blocked ? shiftOffBlocked(f.date, blocked) : null;
+      items.push({
+        ...base,
+        type: f.channel,
+        date: moved ? moved.date : f.date,
+        ...(moved?.shifted && { originalDate: f.date }),
+        ...(moved?.reason && { blockedReason: moved.reason }),
+        idKey: taskId(f.channel, r.identity, f.touch),
+        stage,
+        touch: f.touch,
+        label: `${name} • ${r.campaign}${partBatch ? ` • ${partBatch}` : ''}`,
+      });
+    }
+  }
+  return items.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Loads and merges sheet sources on the server, for routes that need the
+ * schedule without a browser (e.g. the calendar feed). Saved column mappings
+ * live in the browser, so headers resolve through the aliases only.
+ */
+export async function loadSchedule(
+  sources: SheetSource[],
+  loadSheet: (url: string, gid?: string) => Promise<{ csv: string }>,
+  rules: CadenceRule[],
+  blocked?: BlockedDays,
+) {
+  const loaded = await Promise.all(
+    sources.map(async (source) => normalizeSource(source, parseSheetCsv((await loadSheet(source.url, source.gid || undefined)).csv), { rules })),
+  );
+  const { data, duplicates } = mergeSchedule(loaded);
+  return { data, duplicates, tasks: buildTasks(data, rules, blocked) };
+}
+
+const firstLetter = (s: unknown) => (String(s || '').toUpperCase().match(/[A-Z]/) || [''])[0];
+
+/**
+ * "Campaign + Part" as the schedule table shows it: dashes become spaces and
+ * the part's letter is appended unless the name already has it ("DM3-B", "Part A" => "DM3 B").
+ */
+export function campaignPartName(r: Pick<TrackerRow, 'campaign' | 'part'>): string {
+  let name = String(r.campaign || '').replace(/\s*-\s*/g, ' ').trim();
+  const letter = firstLetter(r.part);
+  if (letter && !new RegExp('\\b' + letter + '\\b', 'i').test(name)) name += ' ' + letter;
+  return name;
+}
+
+/**
+ * Cadence matrix group: the campaign without a trailing " - X" letter, plus
+ * the part's letter ("DM3 - B", "Part B" => "DM3 - B").
+ */
+export function cadenceGroupKey(r: Pick<TrackerRow, 'campaign' | 'part'>): string {
+  let base = String(r.campaign || '').trim();
+  const idx = base.lastIndexOf(' - ');
+  if (idx > -1 && /^[A-Za-z]$/.test(base.slice(idx + 3).trim())) base = base.slice(0, idx);
+  const letter = firstLetter(r.part);
+  return letter ? base + ' - ' + letter : base;
+}
@@ -0,0 +1,140 @@
+import Papa from 'papaparse';
+
+/**
+ * Reasons a sheet load can fail. The proxy route returns one of these so the
+ * UI can tell the user what to fix instead of a generic "couldn't load".
+ */
+export type SheetErrorCode =
+  | 'invalid_url'
+  | 'host_not_allowed'
+  | 'not_published'
+  | 'login_page'
+  | 'wrong_gid'
+  | 'empty_tab'
+  | 'http_error'
+  | 'network';
+
+export interface SheetErrorBody {
+  code: SheetErrorCode;
+  message: string;
+  /** HTTP status returned by the upstream sheet, when there was one. */
+  upstreamStatus?: number;
+}
+
+const MESSAGES: Record<SheetErrorCode, string> = {
+  invalid_url: 'That does not look like a Google Sheet or CSV link.',
+  host_not_allowed: 'Only Google Sheets links can be loaded. Add the host to SHEET_ALLOWED_HOSTS to allow other CSV links.',
+  not_published:
+    "The sheet isn't public. Publish it (File → Share → Publish to web → CSV) or share it with 'Anyone with the link'.",
+  login_page: 'Google returned a sign-in page instead of CSV. The sheet is private to your Google account — publish it or share it with anyone with the link.',
+  wrong_gid: "The sheet opened but that tab (gid) doesn't exist. Open the tab in Google Sheets and copy the gid from the URL.",
+  empty_tab: 'The tab loaded but has no data rows. Check that the header row and data are on this tab.',
+  http_error: 'Google Sheets returned an unexpected error.',
+  network: "Couldn't reach Google Sheets.",
+};
+
+export class SheetError extends Error {
+  code: SheetErrorCode;
+  upstreamStatus?: number;
+
+  constructor(code: SheetErrorCode, upstreamStatus?: number, message = MESSAGES[code]) {
+    super(message);
+    this.name = 'SheetError';
+    this.code = code;
+    this.upstreamStatus = upstreamStatus;
+  }
+
+  toJSON(): SheetErrorBody {
+    return { code: this.code, message: this.message, upstreamStatus: this.upstreamStatus };
+  }
+}
+
+/**
+ * Normalizes any Google Sheets link (edit, export or publish-to-web) to its CSV
+ * export URL. Non-Google links are returned unchanged.
+ *
+ * @param input Link pasted by the user.
+ * @param forceGid When set, replaces whatever tab the link points at.
+ */
+export function toCsvUrl(input: string, forceGid?: string): string {
+  try {
+    const u = input?.trim();
+    if (!u) return '';
+    const url = new URL(u);
+    if (url.hostname.includes('docs.google.com') && url.pathname.includes('/spreadsheets/')) {
+      if (url.pathname.includes('/export')) {
+        url.searchParams.set('format', 'csv');
+        if (forceGid) url.searchParams.set('gid', forceGid);
+        return url.toString();
+      }
+      if (url.pathname.includes('/pub') && url.searchParams.get('output') === 'csv') {
+        if (forceGid) url.searchParams.set('gid', forceGid);
+        return url.toString();
+      }
+      const id = url.pathname.match(/\/d\/([^/]+)/)?.[1];
+      // The gid of an edit link usually lives in the hash (#gid=123)
+      const incomingGid = url.searchParams.get('gid') || new URLSearchParams(url.hash.slice(1)).get('gid');
+      const finalGid = forceGid || incomingGid;
+      if (id) {
+        return `https://docs.google.com/spreadsheets/d/${id}/export?format=csv${finalGid ? `&gid=${finalGid}` : ''}`;
+      }
+    }
+  } catch {}
+  return input;
+}
+
+const looksLikeHtml = (text: string) => /^\s*(<!doctype html|<html)/i.test(text);
+
+/**
+ * Turns an upstream response into a SheetError when it isn't usable CSV.
+ * Returns null when the response looks like CSV.
+ */
+export function classifySheetResponse(
+  res: { status: number; url?: string; contentType?: string | null },
+  body: string,
+  requestedUrl: string,
+): SheetError | null {
+  const hasGid = /[?&]gid=/.test(requestedUrl);
+  const html = /text\/html/i.test(res.contentType || '') || looksLikeHtml(body);
+  if (res.status === 401 || res.status === 403) return new SheetError('not_published', res.status);
+  if (res.status === 400 || res.status === 404) {
+    return new SheetError(hasGid && res.status === 400 ? 'wrong_gid' : 'not_published', res.status);
+  }
+  if (res.status >= 400) return new SheetError('http_error', res.status, `${MESSAGES.http_error} (HTTP ${res.status})`);
+  if (html) {
+    if (/accounts\.google\.com|ServiceLogin/i.test(res.url || '') || /accounts\.google\.com|ServiceLogin/i.test(body)) {
+      return new SheetError('login_page', res.status);
+    }
+    return new SheetError('not_published', res.status);
+  }
+  return null;
+}
+
+const isBlank = (row: string[]) => row.every((cell) => String(cell).trim() === '');
+
+/**
+ * Cleans up exported CSV: strips the BOM, normalizes line endings, trims the
+ * header cells and drops trailing blank lines. Blank lines between rows are
+ * kept so row numbers still match the sheet. Throws `empty_tab` when there
+ * are no data rows.
+ */
+export function normalizeCsv(text: string): { csv: string; rowCount: number } {
+  const parsed = Papa.parse(String(text || '').replace(/^\uFEFF/, ''));
+  const rows: string[][] = parsed.data;
+  while (rows.length && isBlank(rows[rows.length - 1])) rows.pop();
+  const rowCount = rows.slice(1).filter((r) => !isBlank(r)).length;
+  if (!rows.length || !rowCount) throw new SheetError('empty_tab');
+  const [header, ...body] = rows;
+  const csv = Papa.unparse([header.map((h) => String(h).trim()), ...body], { newline: '\n' });
+  return { csv, rowCount };
+}
+
+/**
+ * Builds the same-origin proxy URL the browser loads sheets through.
+ */
+export function sheetProxyUrl(sheetUrl: string, opts: { gid?: string; refresh?: boolean } = {}): string {
+  const params = new URLSearchParams({ url: sheetUrl });
+  if (opts.gid) params.set('gid', opts.gid);
+  if (opts.refresh) params.set('refresh', '1');
+  return `/api/sheet?${params.toString()}`;
+}
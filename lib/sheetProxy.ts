@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { SheetError, classifySheetResponse, normalizeCsv, toCsvUrl } from './sheet';
+
+/** Anything with the shape of `fetch`; tests swap in one that hits a fixture server. */
+export type SheetFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface SheetProxyOptions {
+  fetcher?: SheetFetcher;
+  /** How long a loaded sheet is served from memory before Google is asked again. */
+  maxAgeSeconds?: number;
+  /** Hosts that may be proxied besides docs.google.com. */
+  allowedHosts?: string[];
+  /** How many sheets are kept in memory; the least recently used are dropped first. */
+  maxEntries?: number;
+  now?: () => Date;
+}
+
+export interface CachedSheet {
+  csv: string;
+  rowCount: number;
+  etag: string;
+  /** ETag Google sent, replayed as If-None-Match on the next refresh. */
+  upstreamEtag?: string;
+  fetchedAt: Date;
+}
+
+const envHosts = () =>
+  String(process.env.SHEET_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Loads a sheet as normalized CSV, keeping the last good copy per CSV URL so
+ * repeated page loads don't hit Google every time. The proxy is public, so
+ * the copies kept are capped at `maxEntries` (`SHEET_CACHE_ENTRIES`, 100 by
+ * default).
+ */
+export function createSheetLoader(opts: SheetProxyOptions = {}) {
+  const fetcher = opts.fetcher || ((url, init) => fetch(url, init));
+  const maxAgeSeconds = opts.maxAgeSeconds ?? Number(process.env.SHEET_CACHE_SECONDS || 60);
+  const now = opts.now || (() => new Date());
+  const allowed = ['docs.google.com', ...(opts.allowedHosts || envHosts())];
+  const maxEntries = Math.max(1, opts.maxEntries ?? (Number(process.env.SHEET_CACHE_ENTRIES) || 100));
+  // Insertion order is use order, so the first key is the one to evict
+  const cache = new Map<string, CachedSheet>();
+  const remember = (csvUrl: string, entry: CachedSheet) => {
+    cache.delete(csvUrl);
+    cache.set(csvUrl, entry);
+    while (cache.size > maxEntries) cache.delete(cache.keys().next().value);
+    return entry;
+  };
+
+  return async function loadSheet(sheetUrl: string, gid?: string, refresh = false): Promise<CachedSheet> {
+    const csvUrl = toCsvUrl(sheetUrl, gid);
+    let host: string;
+    try {
+      const parsed = new URL(csvUrl);
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') throw new Error('protocol');
+      host = parsed.hostname.toLowerCase();
+    } catch {
+      throw new SheetError('invalid_url');
+    }
+    if (!allowed.includes(host)) throw new SheetError('host_not_allowed');
+
+    const hit = cache.get(csvUrl);
+    if (hit && !refresh && now().getTime() - hit.fetchedAt.getTime() < maxAgeSeconds * 1000) return remember(csvUrl, hit);
+
+    let res: Response;
+    try {
+      res = await fetcher(csvUrl, {
+        redirect: 'follow',
+        cache: 'no-store',
+        headers: hit?.upstreamEtag ? { 'If-None-Match': hit.upstreamEtag } : undefined,
+      });
+    } catch {
+      throw new SheetError('network');
+    }
+    if (res.status === 304 && hit) {
+      return remember(csvUrl, { ...hit, fetchedAt: now() });
+    }
+    const body = await res.text();
+    const err = classifySheetResponse({ status: res.status, url: res.url, contentType: res.headers.get('content-type') }, body, csvUrl);
+    if (err) throw err;
+    const { csv, rowCount } = normalizeCsv(body);
+    const entry: CachedSheet = {
+      csv,
+      rowCount,
+      etag: `"${createHash('sha1').update(csv).digest('hex')}"`,
+      upstreamEtag: res.headers.get('etag') || undefined,
+      fetchedAt: now(),
+    };
+    return remember(csvUrl, entry);
+  };
+}
+
+const STATUS_FOR: Record<string, number> = {
+  invalid_url: 400,
+  host_not_allowed: 403,
+  empty_tab: 422,
+};
+
+/** JSON `{ error: { code, message } }` response for a failed sheet load. */
+export function sheetErrorResponse(e: unknown): Response {
+  const err = e instanceof SheetError ? e : new SheetError('http_error', undefined, e instanceof Error ? e.message : String(e));
+  return Response.json({ error: err.toJSON() }, { status: STATUS_FOR[err.code] || 502, headers: { 'Cache-Control': 'no-store' } });
+}
+
+/**
+ * Route handler for `GET /api/sheet?url=…[&gid=…][&refresh=1]`. Responds with
+ * normalized CSV plus ETag / max-age caching headers, or a JSON
+ * `{ error: { code, message } }` body describing why the sheet couldn't load.
+ */
+export function createSheetHandler(opts: SheetProxyOptions = {}) {
+  const loadSheet = createSheetLoader(opts);
+  const maxAgeSeconds = opts.maxAgeSeconds ?? Number(process.env.SHEET_CACHE_SECONDS || 60);
+
+  return async function GET(req: Request): Promise<Response> {
+    const params = new URL(req.url).searchParams;
+    try {
+      const sheet = await loadSheet(params.get('url') || '', params.get('gid') || undefined, params.get('refresh') === '1');
+      const headers = {
+        ETag: sheet.etag,
+        'Cache-Control': `private, max-age=${maxAgeSeconds}`,
+        'X-Sheet-Fetched-At': sheet.fetchedAt.toISOString(),
+        'X-Sheet-Row-Count': String(sheet.rowCount),
+      };
+      if (req.headers.get('if-none-match') === sheet.etag) return new Response(null, { status: 304, headers });
+      return new Response(sheet.csv, { status: 200, headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' } });
+    } catch (e) {
+      return sheetErrorResponse(e);
+    }
+  };
+}
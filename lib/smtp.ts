@@ -0,0 +1,174 @@
+import net from 'net';
+import tls from 'tls';
+import { randomBytes } from 'crypto';
+
+/** Where outgoing mail goes. A local sink (e.g. MailHog on port 1025) needs no auth or TLS. */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** TLS from the first byte (usually port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/** Reads `SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`, `SMTP_USER` and `SMTP_PASS`; defaults to a local sink on port 1025. */
+export const smtpConfigFromEnv = (): SmtpConfig => ({
+  host: process.env.SMTP_HOST || 'localhost',
+  port: Number(process.env.SMTP_PORT || 1025),
+  secure: process.env.SMTP_SECURE === 'true',
+  user: process.env.SMTP_USER || undefined,
+  pass: process.env.SMTP_PASS || undefined,
+});
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+const encodeHeader = (s: string) => (/^[\x20-\x7e]*$/.test(s) ? s : `=?UTF-8?B?${Buffer.from(s, 'utf8').toString('base64')}?=`);
+const base64Lines = (s: string) => (Buffer.from(s, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+const address = (s: string) => (s.match(/<([^>]+)>/) || [null, s])[1].trim();
+
+/** The message as multipart/alternative MIME (plain text first, HTML preferred), CRLF line endings. */
+export function buildMime(msg: MailMessage, opts: { date?: Date; boundary?: string } = {}): string {
+  const boundary = opts.boundary || `=_tracker_${randomBytes(12).toString('hex')}`;
+  const part = (type: string, body: string) =>
+    [`--${boundary}`, `Content-Type: ${type}; charset=utf-8`, 'Content-Transfer-Encoding: base64', '', base64Lines(body)].join('\r\n');
+  return [
+    `From: ${msg.from}`,
+    `To: ${msg.to.join(', ')}`,
+    `Subject: ${encodeHeader(msg.subject)}`,
+    `Date: ${(opts.date || new Date()).toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    part('text/plain', msg.text),
+    part('text/html', msg.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/** Dot-stuffing for DATA: a line starting with "." gets another one, so it can't end the message early. */
+export const dotStuff = (body: string) => body.replace(/^\./gm, '..');
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/** Reads SMTP replies (multi-line ones included) off a socket, one per call. */
+function replyReader(socket: net.Socket) {
+  let buffer = '';
+  let lines: string[] = [];
+  const ready: { code: number; text: string }[] = [];
+  const waiting: { resolve: (r: { code: number; text: string }) => void; reject: (e: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let nl: number;
+    while ((nl = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, nl).replace(/\r$/, '');
+      buffer = buffer.slice(nl + 1);
+      lines.push(line);
+      if (line.length >= 3 && line[3] !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.map((l) => l.slice(4)).join('\n') };
+        lines = [];
+        const w = waiting.shift();
+        if (w) w.resolve(reply);
+        else ready.push(reply);
+      }
+    }
+  };
+  const onEnd = (e?: Error) => {
+    failure = e || new SmtpError('Connection closed by the mail server');
+    for (const w of waiting.splice(0)) w.reject(failure);
+  };
+  socket.on('data', onData);
+  socket.on('error', onEnd);
+  socket.on('close', () => onEnd());
+
+  return {
+    read: () =>
+      new Promise<{ code: number; text: string }>((resolve, reject) => {
+        if (ready.length) resolve(ready.shift());
+        else if (failure) reject(failure);
+        else waiting.push({ resolve, reject });
+      }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onEnd);
+      socket.removeAllListeners('close');
+    },
+  };
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+/**
+ * Sends one message. Speaks just enough SMTP for a relay or a local sink:
+ * EHLO, STARTTLS when offered, AUTH PLAIN when credentials are set, then the
+ * message. Throws `SmtpError` with the server's reply when a step is refused,
+ * and before sending credentials over a connection without TLS (unless the
+ * server is on this machine).
+ */
+export async function sendMail(config: SmtpConfig, msg: MailMessage): Promise<void> {
+  let socket = await connect(config);
+  socket.setTimeout(config.timeoutMs || 15000, () => socket.destroy(new SmtpError('Mail server timed out')));
+  let reader = replyReader(socket);
+
+  const command = async (line: string | null, expect: number[]) => {
+    if (line !== null) socket.write(line + '\r\n');
+    const reply = await reader.read();
+    if (!expect.includes(reply.code)) throw new SmtpError(`${line ? line.split(' ')[0] : 'Greeting'} refused: ${reply.code} ${reply.text}`, reply.code);
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    let ehlo = await command('EHLO marketing-tracker', [250]);
+    let encrypted = config.secure;
+    if (!config.secure && /^STARTTLS$/im.test(ehlo.text)) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      socket = await new Promise<net.Socket>((resolve, reject) => {
+        const upgraded = tls.connect({ socket, servername: config.host }, () => resolve(upgraded));
+        upgraded.once('error', reject);
+      });
+      reader = replyReader(socket);
+      ehlo = await command('EHLO marketing-tracker', [250]);
+      encrypted = true;
+    }
+    if (config.user) {
+      if (!encrypted && !LOCAL_HOSTS.includes(config.host.toLowerCase())) {
+        throw new SmtpError(`${config.host} doesn't offer TLS; refusing to send the SMTP password in clear text. Set SMTP_SECURE=true or use a server with STARTTLS.`);
+      }
+      const token = Buffer.from(`\0${config.user}\0${config.pass || ''}`, 'utf8').toString('base64');
+      await command(`AUTH PLAIN ${token}`, [235]);
+    }
+    await command(`MAIL FROM:<${address(msg.from)}>`, [250]);
+    for (const to of msg.to) await command(`RCPT TO:<${address(to)}>`, [250, 251]);
+    await command('DATA', [354]);
+    await command(`${dotStuff(buildMime(msg))}.`, [250]);
+    await command('QUIT', [221]).catch(() => {});
+  } finally {
+    socket.destroy();
+  }
+}
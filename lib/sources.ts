@@ -0,0 +1,70 @@
+import { format } from 'date-fns';
+import type { TrackerRow } from './import';
+
+/** A sheet tab (or uploaded file) whose rows feed the schedule. */
+export interface SheetSource {
+  id: string;
+  /** Shown next to rows and in the load status, e.g. "FL tab". */
+  label: string;
+  /** Sheet link; empty for uploaded files. */
+  url: string;
+  gid?: string;
+  /** Category for rows that leave the Category cell blank. */
+  category?: string;
+  /** Configured in code and can't be removed from the UI. */
+  fixed?: boolean;
+}
+
+/** A row that matched an earlier row from another source and was left out. */
+export interface DuplicateRow {
+  key: string;
+  source: string;
+  line: number;
+  /** The source and row that was kept. */
+  keptSource: string;
+  keptLine: number;
+}
+
+/** Key used to save column mappings for a source. */
+export const sourceProfileKey = (s: SheetSource) => (s.url ? `${s.url}${s.gid ? `#gid=${s.gid}` : ''}` : s.id);
+
+/** Rows describe the same drop when date, campaign, part and batch all agree. */
+export const duplicateKey = (r: Pick<TrackerRow, 'mailDate' | 'campaign' | 'part' | 'batch'>) =>
+  [format(r.mailDate, 'yyyy-MM-dd'), r.campaign, r.part, r.batch].map((v) => String(v ?? '').trim().toLowerCase()).join('|');
+
+/**
+ * Fills a source's default Category into rows that don't have one.
+ */
+export function applySourceDefaults(rows: Record<string, any>[], source: SheetSource): Record<string, any>[] {
+  if (!source.category) return rows;
+  return rows.map((r) => (String(r.Category ?? '').trim() ? r : { ...r, Category: source.category }));
+}
+
+/**
+ * Merges the normalized rows of several sources into one schedule. Row ids are
+ * renumbered so they stay unique, and a row that repeats one from an earlier
+ * source (same `duplicateKey`) is dropped and reported instead of being
+ * counted twice.
+ */
+export function mergeSources(loaded: { source: SheetSource; data: TrackerRow[] }[]): {
+  data: TrackerRow[];
+  duplicates: DuplicateRow[];
+} {
+  const seen = new Map<string, TrackerRow>();
+  const data: TrackerRow[] = [];
+  const duplicates: DuplicateRow[] = [];
+  for (const { source, data: rows } of loaded) {
+    for (const r of rows) {
+      const key = duplicateKey(r);
+      const kept = seen.get(key);
+      if (kept && kept.sourceId !== source.id) {
+        duplicates.push({ key, source: source.label, line: r.line, keptSource: kept.source, keptLine: kept.line });
+        continue;
+      }
+      const row = { ...r, id: data.length, source: source.label, sourceId: source.id };
+      if (!kept) seen.set(key, row);
+      data.push(row);
+    }
+  }
+  return { data, duplicates };
+}
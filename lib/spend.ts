@@ -0,0 +1,123 @@
+import { eachDayOfInterval, endOfMonth, format, startOfDay, startOfMonth } from 'date-fns';
+import { NO_CATEGORY, monthKey } from './targets';
+
+/** The row fields spend analytics read. */
+export interface SpendRow {
+  mailDate: Date;
+  cost: number;
+  count: number;
+  hasMail: boolean;
+  campaign: string;
+  category?: string;
+  batch?: string;
+  batchNum?: number | null;
+}
+
+export interface BudgetConfig {
+  /** Budget for any month without an explicit entry; null for no budget. */
+  default: number | null;
+  /** Per-month budgets keyed by `yyyy-MM`. */
+  months?: Record<string, number | null>;
+}
+
+export interface SpendTotal {
+  key: string;
+  spend: number;
+  pieces: number;
+  /** Spend per mailed piece; null when nothing was mailed. */
+  perPiece: number | null;
+}
+
+export interface BurnDownPoint {
+  date: Date;
+  /** Budget left after the day's drops (spent + scheduled so far). */
+  remaining: number;
+  /** Whether the day is before today, i.e. the spend has happened. */
+  past: boolean;
+}
+
+export interface MonthBudget {
+  monthKey: string;
+  budget: number | null;
+  spent: number;
+  scheduled: number;
+  projected: number;
+  /** Projected spend beyond the budget (0 when within it). */
+  over: number;
+  burnDown: BurnDownPoint[];
+  /** Scheduled drops from today on that take the month over budget, in date order. */
+  overBudgetDrops: { date: Date; campaign: string; cost: number; projectedAfter: number }[];
+}
+
+export const budgetForMonth = (config: BudgetConfig | null | undefined, key: string): number | null => {
+  const month = config?.months?.[key];
+  return month !== undefined ? month : config?.default ?? null;
+};
+
+function totalsBy(rows: SpendRow[], keyOf: (r: SpendRow) => string): SpendTotal[] {
+  const totals = new Map<string, SpendTotal>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    const t = totals.get(key) || { key, spend: 0, pieces: 0, perPiece: null };
+    t.spend += r.cost || 0;
+    if (r.hasMail) t.pieces += r.count || 0;
+    totals.set(key, t);
+  }
+  return Array.from(totals.values()).map((t) => ({ ...t, perPiece: t.pieces ? t.spend / t.pieces : null }));
+}
+
+/** Spend and pieces per `yyyy-MM`, oldest first. */
+export const spendByMonth = (rows: SpendRow[]) => totalsBy(rows, (r) => monthKey(r.mailDate)).sort((a, b) => a.key.localeCompare(b.key));
+
+export const spendByCategory = (rows: SpendRow[]) =>
+  totalsBy(rows, (r) => String(r.category || '').trim() || NO_CATEGORY).sort((a, b) => b.spend - a.spend);
+
+/** Cost per piece per campaign, and per batch within it (keyed "campaign • batch"). */
+export function costPerPiece(rows: SpendRow[]) {
+  const withCost = rows.filter((r) => r.cost);
+  return {
+    byCampaign: totalsBy(withCost, (r) => r.campaign).sort((a, b) => a.key.localeCompare(b.key)),
+    byBatch: totalsBy(withCost, (r) => [r.campaign, r.batch || (r.batchNum ?? '')].filter((v) => v !== '').join(' • ')).sort((a, b) =>
+      a.key.localeCompare(b.key, undefined, { numeric: true }),
+    ),
+  };
+}
+
+/**
+ * Tracks a month's spend against its budget: spent so far (drops before
+ * today), still scheduled, a day-by-day burn-down of what's left, and the
+ * scheduled drops that would take the month over budget.
+ */
+export function monthBudget(month: Date, rows: SpendRow[], opts: { today: Date; budgets?: BudgetConfig }): MonthBudget {
+  const key = monthKey(month);
+  const budget = budgetForMonth(opts.budgets, key);
+  const cutoff = startOfDay(opts.today);
+  const inMonth = rows.filter((r) => monthKey(r.mailDate) === key && r.cost).sort((a, b) => a.mailDate.getTime() - b.mailDate.getTime());
+  let spent = 0;
+  let scheduled = 0;
+  for (const r of inMonth) {
+    if (r.mailDate < cutoff) spent += r.cost;
+    else scheduled += r.cost;
+  }
+  const projected = spent + scheduled;
+
+  const byDay = new Map<string, number>();
+  for (const r of inMonth) byDay.set(format(r.mailDate, 'yyyy-MM-dd'), (byDay.get(format(r.mailDate, 'yyyy-MM-dd')) || 0) + r.cost);
+  let running = 0;
+  const burnDown = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).map((date) => {
+    running += byDay.get(format(date, 'yyyy-MM-dd')) || 0;
+    return { date, remaining: (budget ?? 0) - running, past: date < cutoff };
+  });
+
+  const overBudgetDrops: MonthBudget['overBudgetDrops'] = [];
+  if (budget !== null) {
+    let total = spent;
+    for (const r of inMonth) {
+      if (r.mailDate < cutoff) continue;
+      total += r.cost;
+      if (total > budget) overBudgetDrops.push({ date: r.mailDate, campaign: r.campaign, cost: r.cost, projectedAfter: total });
+    }
+  }
+
+  return { monthKey: key, budget, spent, scheduled, projected, over: budget !== null ? Math.max(0, projected - budget) : 0, burnDown, overBudgetDrops };
+}
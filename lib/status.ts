@@ -0,0 +1,45 @@
+/**
+ * Lifecycle statuses. Mail drops move through the print workflow; text and
+ * voicemail follow-ups are scheduled in the dialer and then sent, skipped or
+ * failed. A task with no recorded status hasn't been started.
+ */
+export const MAIL_STATUSES = ['list_pulled', 'sent_to_printer', 'dropped', 'delivered'] as const;
+export const FOLLOW_UP_STATUSES = ['scheduled', 'sent', 'skipped', 'failed'] as const;
+
+export type MailStatus = (typeof MAIL_STATUSES)[number];
+export type FollowUpStatus = (typeof FOLLOW_UP_STATUSES)[number];
+export type TaskStatus = MailStatus | FollowUpStatus;
+
+/** Badge variant per status (see badge.tsx). */
+export const STATUS_META: Record<TaskStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'success' | 'warning' }> = {
+  list_pulled: { label: 'List pulled', variant: 'default' },
+  sent_to_printer: { label: 'At printer', variant: 'secondary' },
+  dropped: { label: 'Dropped', variant: 'warning' },
+  delivered: { label: 'Delivered', variant: 'success' },
+  scheduled: { label: 'Scheduled', variant: 'secondary' },
+  sent: { label: 'Sent', variant: 'success' },
+  skipped: { label: 'Skipped', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+/** Task type from a task key (`mail|…`, `text|…`, `vm|…`). */
+export const typeOfKey = (key: string) => String(key || '').split('|')[0];
+
+export const statusesFor = (type: string): readonly TaskStatus[] => (type === 'mail' ? MAIL_STATUSES : FOLLOW_UP_STATUSES);
+
+export const isValidStatus = (type: string, status: unknown): status is TaskStatus =>
+  (statusesFor(type) as readonly unknown[]).includes(status);
+
+/**
+ * The status a record stands for. Records saved before statuses existed were
+ * plain Text/VM checkmarks, so they count as sent.
+ */
+export function effectiveStatus(record: { status?: TaskStatus } | undefined, type: string): TaskStatus | null {
+  if (!record) return null;
+  return record.status || (type === 'mail' ? null : 'sent');
+}
+
+/** Whether a task needs no further work: mail once it has dropped, follow-ups once sent or skipped. */
+export function isDoneStatus(status: TaskStatus | null): boolean {
+  return status === 'dropped' || status === 'delivered' || status === 'sent' || status === 'skipped';
+}
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Folder the server-side JSON stores live in. Defaults to `.data` in the
+ * project; point `TRACKER_DATA_DIR` at a persistent volume in production.
+ */
+export const dataDir = () => process.env.TRACKER_DATA_DIR || path.join(process.cwd(), '.data');
+
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * A small JSON file store. Updates to the same file run one at a time and are
+ * written to a temp file first, so concurrent requests never interleave or
+ * leave a half-written file behind.
+ *
+ * @param name File name inside `dataDir()`.
+ * @param initial Value used when the file doesn't exist yet.
+ */
+export function jsonStore<T>(name: string, initial: () => T) {
+  const file = () => path.join(dataDir(), name);
+
+  async function read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(file(), 'utf8'));
+    } catch (e) {
+      if (e?.code === 'ENOENT') return initial();
+      throw e;
+    }
+  }
+
+  /** Applies `fn` to the current value (mutate it or return a new one) and saves the result. */
+  function update(fn: (current: T) => T | void): Promise<T> {
+    const target = file();
+    const run = (queues.get(target) || Promise.resolve())
+      .catch(() => {})
+      .then(async () => {
+        const current = await read();
+        const next = (fn(current) ?? current) as T;
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        const tmp = `${target}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(next, null, 2));
+        await fs.rename(tmp, target);
+        return next;
+      });
+    queues.set(target, run);
+    return run;
+  }
+
+  return { read, update };
+}
@@ -0,0 +1,175 @@
+import { eachDayOfInterval, endOfMonth, format, startOfDay, startOfMonth } from 'date-fns';
+
+export interface TargetRange {
+  min: number;
+  max: number;
+}
+
+/** A month's overall range plus optional per-Category ranges (e.g. FL, OK). */
+export interface MonthTarget extends TargetRange {
+  byCategory?: Record<string, TargetRange>;
+}
+
+export interface TargetConfig {
+  /** Range used for any month without an explicit entry. */
+  default: MonthTarget;
+  /** Per-month overrides keyed by `yyyy-MM`. */
+  months?: Record<string, MonthTarget>;
+}
+
+export type TargetStatus = 'below' | 'within' | 'above';
+
+/** The mail-drop fields the forecast needs. */
+export interface MailDrop {
+  mailDate: Date;
+  count: number;
+  category?: string;
+}
+
+export interface DropDayPlan {
+  date: Date;
+  /** Pieces already scheduled on this drop day. */
+  scheduled: number;
+  /** Extra pieces to add here so the month reaches its minimum. */
+  addMin: number;
+  /** Extra pieces that can be added here before the month exceeds its maximum. */
+  addMax: number;
+}
+
+export interface RangeForecast {
+  target: TargetRange | null;
+  mailed: number;
+  scheduled: number;
+  projected: number;
+  status: TargetStatus | null;
+  /** Pieces still needed to reach the minimum (0 when already there). */
+  needMin: number;
+  /** Headroom left below the maximum (negative when over). */
+  headroom: number;
+}
+
+export interface CategoryForecast extends RangeForecast {
+  category: string;
+}
+
+export interface MonthForecast extends RangeForecast {
+  monthKey: string;
+  target: MonthTarget;
+  /** Drop weekdays from today to month end, with the suggested split of `needMin`. */
+  remainingDropDays: DropDayPlan[];
+  byCategory: CategoryForecast[];
+}
+
+/** The range every month had before targets became configurable. */
+export const DEFAULT_TARGETS: TargetConfig = {
+  default: { min: 9000, max: 10000 },
+};
+
+/** Label used for rows without a Category. */
+export const NO_CATEGORY = '(none)';
+
+export const monthKey = (d: Date) => format(d, 'yyyy-MM');
+
+/**
+ * Resolves the target for a month. A month entry replaces the default range
+ * but inherits the default's category ranges unless it sets its own.
+ */
+export function targetForMonth(config: TargetConfig, key: string): MonthTarget {
+  const base = config?.default || DEFAULT_TARGETS.default;
+  const month = config?.months?.[key];
+  if (!month) return base;
+  return { ...month, byCategory: month.byCategory || base.byCategory };
+}
+
+/**
+ * Narrows targets to one Category: each month uses that Category's range when
+ * it has one, so a filtered month card is measured against the right numbers.
+ * Months without a range for the Category keep their overall range.
+ */
+export function targetsForCategory(config: TargetConfig, category: string): TargetConfig {
+  const narrow = (t: MonthTarget): MonthTarget => {
+    const hit = Object.entries(t.byCategory || {}).find(([c]) => c.toLowerCase() === category.toLowerCase());
+    return hit ? { ...hit[1], byCategory: { [hit[0]]: hit[1] } } : t;
+  };
+  const months = Object.fromEntries(Object.keys(config?.months || {}).map((key) => [key, narrow(targetForMonth(config, key))]));
+  const base = config?.default || DEFAULT_TARGETS.default;
+  return { default: narrow(base), months };
+}
+
+export function targetStatus(total: number, range: TargetRange | null): TargetStatus | null {
+  if (!range) return null;
+  if (total < range.min) return 'below';
+  if (total > range.max) return 'above';
+  return 'within';
+}
+
+function forecastRange(drops: MailDrop[], today: Date, range: TargetRange | null): RangeForecast {
+  const cutoff = startOfDay(today);
+  let mailed = 0;
+  let scheduled = 0;
+  for (const d of drops) {
+    if (d.mailDate < cutoff) mailed += d.count;
+    else scheduled += d.count;
+  }
+  const projected = mailed + scheduled;
+  return {
+    target: range,
+    mailed,
+    scheduled,
+    projected,
+    status: targetStatus(projected, range),
+    needMin: range ? Math.max(0, range.min - projected) : 0,
+    headroom: range ? range.max - projected : 0,
+  };
+}
+
+/** Splits `total` into `n` whole parts that differ by at most one. */
+const spread = (total: number, n: number) =>
+  Array.from({ length: n }, (_, i) => Math.floor(total / n) + (i < total % n ? 1 : 0));
+
+/**
+ * Projects a month's end total from the drops already scheduled in it and
+ * works out how many more pieces are needed to land in range, split across
+ * the drop weekdays (Tuesday by default) still ahead this month.
+ *
+ * @param month Any date in the month to forecast.
+ * @param drops Mail drops; rows outside the month are ignored.
+ */
+export function forecastMonth(
+  month: Date,
+  drops: MailDrop[],
+  opts: { today: Date; targets?: TargetConfig; dropWeekday?: number },
+): MonthForecast {
+  const key = monthKey(month);
+  const target = targetForMonth(opts.targets || DEFAULT_TARGETS, key);
+  const dropWeekday = opts.dropWeekday ?? 2;
+  const inMonth = drops.filter((d) => monthKey(d.mailDate) === key);
+  const overall = forecastRange(inMonth, opts.today, target);
+
+  const cutoff = startOfDay(opts.today);
+  const days = eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).filter(
+    (d) => d >= cutoff && d.getDay() === dropWeekday,
+  );
+  const addMin = spread(overall.needMin, days.length);
+  const addMax = spread(Math.max(0, overall.headroom), days.length);
+  const remainingDropDays = days.map((date, i) => ({
+    date,
+    scheduled: inMonth.filter((d) => format(d.mailDate, 'yyyy-MM-dd') === format(date, 'yyyy-MM-dd')).reduce((s, d) => s + d.count, 0),
+    addMin: addMin[i],
+    addMax: addMax[i],
+  }));
+
+  const groups = new Map<string, MailDrop[]>();
+  for (const c of Object.keys(target.byCategory || {})) groups.set(c, []);
+  for (const d of inMonth) {
+    const c = d.category || NO_CATEGORY;
+    const existing = Array.from(groups.keys()).find((k) => k.toLowerCase() === c.toLowerCase()) || c;
+    if (!groups.has(existing)) groups.set(existing, []);
+    groups.get(existing).push(d);
+  }
+  const byCategory = Array.from(groups.entries())
+    .map(([category, list]) => ({ category, ...forecastRange(list, opts.today, target.byCategory?.[category] || null) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  return { ...overall, monthKey: key, target, remainingDropDays, byCategory };
+}
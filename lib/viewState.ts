@@ -0,0 +1,112 @@
+import { format } from 'date-fns';
+import { EMPTY_FILTER, type FilterChannel, type RowFilter } from './filters';
+
+/** Page sections that can be shown or hidden. */
+export const SECTIONS = ['calendar', 'weekly', 'schedule', 'cadence', 'spend', 'results', 'capacity'] as const;
+export type Section = (typeof SECTIONS)[number];
+
+/** Optional schedule table columns. */
+export const OPTIONAL_COLUMNS = ['cost', 'county'] as const;
+export type OptionalColumn = (typeof OPTIONAL_COLUMNS)[number];
+
+/** How the calendar section lays out tasks. */
+export const CALENDAR_VIEWS = ['month', 'week', 'agenda'] as const;
+export type CalendarView = (typeof CALENDAR_VIEWS)[number];
+
+/** What a shared link restores. */
+export interface ViewState {
+  /** Viewed month as yyyy-MM; '' follows today. */
+  month: string;
+  sections: Section[];
+  calendarView: CalendarView;
+  hidePast: boolean;
+  columns: OptionalColumn[];
+  /** Schedule status filter ('all', 'open', 'none' or a status). */
+  status: string;
+  filter: RowFilter;
+  /** Workspace id; '' is the default workspace (or, when opening the page, the one used last). */
+  workspace: string;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  month: '',
+  sections: ['calendar', 'weekly', 'schedule', 'cadence'],
+  calendarView: 'month',
+  hidePast: true,
+  columns: [],
+  status: 'all',
+  filter: EMPTY_FILTER,
+  workspace: '',
+};
+
+const CHANNELS: FilterChannel[] = ['mail', 'text', 'vm', 'nomail'];
+
+const sameList = (a: readonly string[], b: readonly string[]) => a.length === b.length && a.every((x) => b.includes(x));
+
+const listParam = <T extends string>(value: string | null, allowed: readonly T[]): T[] =>
+  String(value || '')
+    .split(',')
+    .map((v) => v.trim().toLowerCase())
+    .filter((v): v is T => (allowed as readonly string[]).includes(v));
+
+/** The month a date falls in, or '' when that's the current month (so links don't pin today's month). */
+export const monthParam = (viewDate: Date, today = new Date()) =>
+  format(viewDate, 'yyyy-MM') === format(today, 'yyyy-MM') ? '' : format(viewDate, 'yyyy-MM');
+
+/**
+ * Query string for a view, e.g. `month=2025-10&category=FL&sections=calendar,schedule`.
+ * Values that match the defaults are left out, so a default view has a bare URL.
+ */
+export function viewStateToQuery(v: ViewState): string {
+  const d = DEFAULT_VIEW_STATE;
+  const params = new URLSearchParams();
+  if (v.workspace) params.set('workspace', v.workspace);
+  if (v.month) params.set('month', v.month);
+  if (!sameList(v.sections, d.sections)) params.set('sections', SECTIONS.filter((s) => v.sections.includes(s)).join(',') || 'none');
+  if (v.calendarView !== d.calendarView) params.set('view', v.calendarView);
+  if (v.hidePast !== d.hidePast) params.set('past', v.hidePast ? 'hide' : 'show');
+  if (v.columns.length) params.set('columns', OPTIONAL_COLUMNS.filter((c) => v.columns.includes(c)).join(','));
+  if (v.status !== d.status) params.set('status', v.status);
+  if (v.filter.category) params.set('category', v.filter.category);
+  if (v.filter.county) params.set('county', v.filter.county);
+  if (v.filter.campaign) params.set('campaign', v.filter.campaign);
+  if (v.filter.channels.length) params.set('channel', CHANNELS.filter((c) => v.filter.channels.includes(c)).join(','));
+  if (v.filter.text.trim()) params.set('q', v.filter.text);
+  // Commas are safe in a query and keep pasted links readable
+  return params.toString().replace(/%2C/gi, ',');
+}
+
+/** Reads a view from a query string; anything missing or unreadable keeps its default. */
+export function viewStateFromQuery(search: string): ViewState {
+  const params = new URLSearchParams(search);
+  const d = DEFAULT_VIEW_STATE;
+  const month = params.get('month') || '';
+  const past = params.get('past');
+  const view = params.get('view') as CalendarView;
+  return {
+    month: /^\d{4}-\d{2}$/.test(month) ? month : '',
+    sections: params.has('sections') ? listParam(params.get('sections'), SECTIONS) : d.sections,
+    calendarView: CALENDAR_VIEWS.includes(view) ? view : d.calendarView,
+    hidePast: past === 'show' ? false : past === 'hide' ? true : d.hidePast,
+    columns: listParam(params.get('columns'), OPTIONAL_COLUMNS),
+    status: params.get('status') || d.status,
+    filter: {
+      category: params.get('category') || '',
+      county: params.get('county') || '',
+      campaign: params.get('campaign') || '',
+      channels: listParam(params.get('channel'), CHANNELS),
+      text: params.get('q') || '',
+    },
+    workspace: params.get('workspace') || '',
+  };
+}
+
+/** Whether two queries differ only in the free-text search (typing replaces the history entry instead of adding one). */
+export function onlySearchChanged(a: string, b: string): boolean {
+  const strip = (q: string) => {
+    const params = new URLSearchParams(q);
+    params.delete('q');
+    return params.toString();
+  };
+  return strip(a) === strip(b);
+}
@@ -0,0 +1,140 @@
+import { createHash, randomUUID } from 'crypto';
+import { BLOCKED_DAYS, CADENCE_RULES, WEBHOOKS } from './config';
+import { emptyCompletionState, type CompletionState } from './completions';
+import { loadSchedule } from './schedule';
+import { createSheetLoader, sheetErrorResponse, type SheetProxyOptions } from './sheetProxy';
+import { jsonStore } from './store';
+import { requestWorkspace } from './workspaceApi';
+import {
+  attemptDelivery,
+  newEvent,
+  scheduleEvents,
+  wantsEvent,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEvent,
+} from './webhooks';
+
+interface WebhookState {
+  /** Dedupe keys of events already raised. */
+  emitted: string[];
+  /** Hash of the sheets' CSV at the last run, for `sheet.changed`. */
+  sheetHash?: string;
+  /** Pending deliveries and the most recent finished ones. */
+  deliveries: WebhookDelivery[];
+}
+
+const MAX_EMITTED = 5000;
+const MAX_FINISHED = 500;
+
+const errorResponse = (status: number, code: string, message: string) =>
+  Response.json({ error: { code, message } }, { status, headers: { 'Cache-Control': 'no-store' } });
+
+/**
+ * Route handlers for `/api/webhooks`:
+ * - `POST` checks the schedule, raises new events (`task.due`, `task.overdue`, `month.target_missed`,
+ *   `sheet.changed`) for the endpoints in `WEBHOOKS` and sends every delivery that's due, retrying
+ *   failures on later runs. Call it every few minutes from a cron job. When `WEBHOOK_TRIGGER_SECRET`
+ *   is set, it needs `Authorization: Bearer <secret>`.
+ * - `GET` returns the delivery log, newest first.
+ * Both take `?workspace=<id>` (the default workspace without it); each workspace has its own events and log.
+ * Bodies are signed with the endpoint's secret or `WEBHOOK_SECRET` (see `signPayload`); without either,
+ * the delivery is marked failed instead of being sent.
+ */
+export function createWebhookHandlers(
+  opts: SheetProxyOptions & {
+    endpoints?: WebhookEndpoint[];
+    overdueDays?: number;
+    /** Used to post deliveries (`fetcher` loads the sheets). */
+    postFetcher?: (url: string, init?: RequestInit) => Promise<Response>;
+    file?: string;
+    completionsFile?: string;
+  } = {},
+) {
+  const loadSheet = createSheetLoader(opts);
+  const now = opts.now || (() => new Date());
+  const endpoints = opts.endpoints || WEBHOOKS.endpoints;
+  const overdueDays = opts.overdueDays ?? WEBHOOKS.overdueDays;
+  const storeFor = (suffix: string) => jsonStore<WebhookState>(opts.file || `webhooks${suffix}.json`, () => ({ emitted: [], deliveries: [] }));
+  const completionStoreFor = (suffix: string) => jsonStore<CompletionState>(opts.completionsFile || `completions${suffix}.json`, emptyCompletionState);
+
+  async function GET(req: Request): Promise<Response> {
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    const state = await storeFor(picked.suffix).read();
+    const deliveries = state.deliveries.slice().sort((a, b) => b.event.createdAt.localeCompare(a.event.createdAt));
+    return Response.json({ deliveries, pending: deliveries.filter((d) => d.status === 'pending').length }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  async function POST(req: Request): Promise<Response> {
+    const trigger = process.env.WEBHOOK_TRIGGER_SECRET;
+    if (trigger && req.headers.get('authorization') !== `Bearer ${trigger}`) return errorResponse(401, 'unauthorized', 'Wrong or missing webhook trigger secret.');
+    const picked = await requestWorkspace(req);
+    if (picked instanceof Response) return picked;
+    const { workspace } = picked;
+    const store = storeFor(picked.suffix);
+    const at = now();
+    const csvs: string[] = [];
+    let loaded: Awaited<ReturnType<typeof loadSchedule>>;
+    let completions: CompletionState;
+    try {
+      [loaded, completions] = await Promise.all([
+        loadSchedule(
+          workspace.sources,
+          async (url, gid) => {
+            const sheet = await loadSheet(url, gid);
+            csvs.push(sheet.csv);
+            return sheet;
+          },
+          CADENCE_RULES,
+          BLOCKED_DAYS,
+        ),
+        completionStoreFor(picked.suffix).read(),
+      ]);
+    } catch (e) {
+      return sheetErrorResponse(e);
+    }
+
+    const state = await store.read();
+    const emitted = new Set(state.emitted);
+    const raised: { dedupe?: string; event: WebhookEvent }[] = scheduleEvents(loaded.tasks, completions.completions, { now: at, targets: workspace.targets, overdueDays })
+      .filter((e) => !emitted.has(e.dedupe))
+      .map((e) => ({ dedupe: e.dedupe, event: newEvent(e.type, { workspace: workspace.id, ...e.data }, at) }));
+    const sheetHash = createHash('sha256').update(csvs.sort().join('\n\u0000')).digest('hex');
+    if (state.sheetHash && state.sheetHash !== sheetHash) {
+      raised.push({ event: newEvent('sheet.changed', { rows: loaded.data.length, tasks: loaded.tasks.length, workspace: workspace.id, sources: workspace.sources.map((s) => s.label) }, at) });
+    }
+
+    const created: WebhookDelivery[] = raised.flatMap(({ event }) =>
+      endpoints
+        .filter((endpoint) => wantsEvent(endpoint, event.type))
+        .map((endpoint) => ({ id: randomUUID(), url: endpoint.url, event, attempts: 0, status: 'pending' as const, nextAttemptAt: at.toISOString() })),
+    );
+    const due = [...state.deliveries, ...created].filter((d) => d.status === 'pending' && (!d.nextAttemptAt || d.nextAttemptAt <= at.toISOString()));
+    const results = new Map<string, WebhookDelivery>();
+    for (const d of due) {
+      const secret = endpoints.find((e) => e.url === d.url)?.secret || process.env.WEBHOOK_SECRET;
+      // An unsigned body can't be told apart from a forged one, so it isn't sent at all
+      if (!secret) results.set(d.id, { ...d, status: 'failed', nextAttemptAt: undefined, lastResult: 'no signing secret' });
+      else results.set(d.id, await attemptDelivery(d, { secret, now: at, fetcher: opts.postFetcher }));
+    }
+
+    await store.update((current) => {
+      current.emitted = [...current.emitted, ...raised.map((r) => r.dedupe).filter(Boolean)].slice(-MAX_EMITTED);
+      current.sheetHash = sheetHash;
+      const all = [...current.deliveries, ...created].map((d) => results.get(d.id) || d);
+      const pending = all.filter((d) => d.status === 'pending');
+      const finished = all.filter((d) => d.status !== 'pending').slice(-MAX_FINISHED);
+      current.deliveries = [...finished, ...pending];
+    });
+    const sent = Array.from(results.values());
+    return Response.json({
+      events: raised.length,
+      delivered: sent.filter((d) => d.status === 'delivered').length,
+      retrying: sent.filter((d) => d.status === 'pending').length,
+      failed: sent.filter((d) => d.status === 'failed').length,
+    });
+  }
+
+  return { GET, POST };
+}
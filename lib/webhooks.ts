@@ -0,0 +1,143 @@
+import { createHmac, randomUUID } from 'crypto';
+import { addDays, addMinutes, format, startOfDay, startOfMonth } from 'date-fns';
+import type { Completion } from './completions';
+import type { ScheduledTask } from './schedule';
+import { stageForBatch } from './schedule';
+import { effectiveStatus, isDoneStatus } from './status';
+import { monthKey, targetForMonth, targetStatus, type TargetConfig } from './targets';
+
+export const WEBHOOK_EVENTS = ['task.due', 'task.overdue', 'month.target_missed', 'sheet.changed'] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number];
+
+/** A URL events are posted to. */
+export interface WebhookEndpoint {
+  url: string;
+  /** Event types to send; empty or missing means all. */
+  events?: WebhookEventType[];
+  /** Signing secret; defaults to the `WEBHOOK_SECRET` environment variable. */
+  secret?: string;
+}
+
+export interface WebhookEvent {
+  /** Unique per occurrence; receivers can use it to drop repeats. */
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/** An event on its way to one endpoint. */
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: WebhookEvent;
+  attempts: number;
+  /** ISO time of the next try; unset once delivered or given up. */
+  nextAttemptAt?: string;
+  status: 'pending' | 'delivered' | 'failed';
+  /** Last HTTP status or network error. */
+  lastResult?: string;
+}
+
+/** Minutes to wait after each failed attempt; a delivery fails for good after the last one. */
+export const RETRY_MINUTES = [1, 5, 30, 120];
+
+/** The task fields a payload carries. */
+export const taskPayload = (t: ScheduledTask) => ({
+  key: t.idKey,
+  type: t.type,
+  date: format(t.date, 'yyyy-MM-dd'),
+  campaign: t.ref.campaign,
+  part: t.ref.part,
+  batch: t.ref.batch,
+  stage: t.stage || stageForBatch(t.ref.batchNum),
+  count: t.count,
+  category: t.ref.category,
+});
+
+/**
+ * Events the schedule calls for now. Each gets a stable key (`dedupe`), so a
+ * task that's due or overdue, or a month that missed its target, is only
+ * reported once however often this runs:
+ * - `task.due`: a Text/VM follow-up dated today that isn't done
+ * - `task.overdue`: a Text/VM follow-up dated in the last `overdueDays` days that isn't done
+ * - `month.target_missed`: last month's mail total ended outside its target range
+ */
+export function scheduleEvents(
+  tasks: ScheduledTask[],
+  completions: Record<string, Completion>,
+  opts: { now: Date; targets: TargetConfig; overdueDays: number },
+): { dedupe: string; type: WebhookEventType; data: Record<string, unknown> }[] {
+  const today = startOfDay(opts.now);
+  const oldest = addDays(today, -opts.overdueDays);
+  const events: { dedupe: string; type: WebhookEventType; data: Record<string, unknown> }[] = [];
+  for (const t of tasks) {
+    if (t.type === 'mail' || isDoneStatus(effectiveStatus(completions[t.idKey], t.type))) continue;
+    const day = format(t.date, 'yyyy-MM-dd');
+    if (day === format(today, 'yyyy-MM-dd')) events.push({ dedupe: `task.due:${t.idKey}:${day}`, type: 'task.due', data: { task: taskPayload(t) } });
+    else if (t.date < today && t.date >= oldest) events.push({ dedupe: `task.overdue:${t.idKey}:${day}`, type: 'task.overdue', data: { task: taskPayload(t) } });
+  }
+
+  const lastMonth = monthKey(addDays(startOfMonth(today), -1));
+  const target = targetForMonth(opts.targets, lastMonth);
+  const total = tasks.filter((t) => t.type === 'mail' && monthKey(t.date) === lastMonth).reduce((s, t) => s + (t.count || 0), 0);
+  const status = targetStatus(total, target);
+  if (status && status !== 'within') {
+    events.push({ dedupe: `month.target_missed:${lastMonth}`, type: 'month.target_missed', data: { month: lastMonth, total, min: target.min, max: target.max, status } });
+  }
+  return events;
+}
+
+export const newEvent = (type: WebhookEventType, data: Record<string, unknown>, now: Date): WebhookEvent => ({
+  id: randomUUID(),
+  type,
+  createdAt: now.toISOString(),
+  data,
+});
+
+/**
+ * Signature header for a body: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`.
+ * Receivers recompute it with the shared secret and reject old timestamps.
+ */
+export function signPayload(body: string, secret: string, now: Date): string {
+  const t = Math.floor(now.getTime() / 1000);
+  return `t=${t},v1=${createHmac('sha256', secret).update(`${t}.${body}`).digest('hex')}`;
+}
+
+export const wantsEvent = (endpoint: WebhookEndpoint, type: WebhookEventType) => !endpoint.events?.length || endpoint.events.includes(type);
+
+/**
+ * Posts one delivery and returns it updated: delivered on a 2xx, otherwise
+ * scheduled for a retry (see `RETRY_MINUTES`) or marked failed.
+ */
+export async function attemptDelivery(
+  delivery: WebhookDelivery,
+  opts: { secret: string; now: Date; fetcher?: (url: string, init?: RequestInit) => Promise<Response> },
+): Promise<WebhookDelivery> {
+  const fetcher = opts.fetcher || ((url, init) => fetch(url, init));
+  const body = JSON.stringify(delivery.event);
+  const attempts = delivery.attempts + 1;
+  let lastResult: string;
+  try {
+    const res = await fetcher(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'marketing-tracker-webhooks',
+        'X-Tracker-Event': delivery.event.type,
+        'X-Tracker-Delivery': delivery.id,
+        'X-Tracker-Signature': signPayload(body, opts.secret, opts.now),
+      },
+      body,
+      signal: AbortSignal.timeout(10000),
+    });
+    if (res.ok) return { ...delivery, attempts, status: 'delivered', nextAttemptAt: undefined, lastResult: `HTTP ${res.status}` };
+    lastResult = `HTTP ${res.status}`;
+  } catch (e) {
+    lastResult = e instanceof Error ? e.message : String(e);
+  }
+  const wait = RETRY_MINUTES[attempts - 1];
+  return wait === undefined
+    ? { ...delivery, attempts, status: 'failed', nextAttemptAt: undefined, lastResult }
+    : { ...delivery, attempts, status: 'pending', nextAttemptAt: addMinutes(opts.now, wait).toISOString(), lastResult };
+}
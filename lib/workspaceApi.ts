@@ -0,0 +1,76 @@
+import { DEFAULT_WORKSPACES } from './config';
+import { jsonStore } from './store';
+import { findWorkspace, validateWorkspace, workspaceSuffix, type Workspace, type WorkspaceState } from './workspaces';
+
+const errorResponse = (status: number, code: string, message: string) =>
+  Response.json({ error: { code, message } }, { status, headers: { 'Cache-Control': 'no-store' } });
+
+/** The server's workspaces; `DEFAULT_WORKSPACES` until the Settings page saves one. */
+export const workspaceStore = (file = 'workspaces.json') => jsonStore<WorkspaceState>(file, () => ({ workspaces: DEFAULT_WORKSPACES }));
+
+/**
+ * The workspace a server route works on: `?workspace=<id>`, or the default
+ * (first) one, with its store suffix (see `workspaceSuffix`).
+ */
+export async function requestWorkspace(req: Request, file?: string): Promise<{ workspace: Workspace; suffix: string } | Response> {
+  const id = new URL(req.url).searchParams.get('workspace');
+  const { workspaces } = await workspaceStore(file).read();
+  const workspace = findWorkspace(workspaces, id);
+  if (!workspace || (id && workspace.id !== id)) return errorResponse(404, 'unknown_workspace', `There's no workspace "${id}".`);
+  return { workspace, suffix: workspaceSuffix(workspace.id) };
+}
+
+/**
+ * Route handlers for `/api/workspaces`:
+ * - `GET` returns `{ workspaces }`, the default first
+ * - `PUT { workspace }` adds a workspace or replaces the one with the same id
+ * - `DELETE { id }` removes a workspace (the last one can't be removed)
+ * Every call answers with the full list.
+ */
+export function createWorkspaceHandlers(opts: { file?: string } = {}) {
+  const store = workspaceStore(opts.file);
+  const list = (state: WorkspaceState) => Response.json({ workspaces: state.workspaces }, { headers: { 'Cache-Control': 'no-store' } });
+
+  async function readBody(req: Request): Promise<Record<string, unknown> | Response> {
+    try {
+      const parsed: unknown = await req.json();
+      return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+    } catch {
+      return errorResponse(400, 'invalid_json', 'Request body must be JSON.');
+    }
+  }
+
+  async function GET(): Promise<Response> {
+    return list(await store.read());
+  }
+
+  async function PUT(req: Request): Promise<Response> {
+    const body = await readBody(req);
+    if (body instanceof Response) return body;
+    const workspace = validateWorkspace(body.workspace);
+    if (typeof workspace === 'string') return errorResponse(400, 'invalid_workspace', workspace);
+    return list(
+      await store.update((state) => {
+        const i = state.workspaces.findIndex((w) => w.id === workspace.id);
+        if (i >= 0) state.workspaces[i] = workspace;
+        else state.workspaces.push(workspace);
+      }),
+    );
+  }
+
+  async function DELETE(req: Request): Promise<Response> {
+    const body = await readBody(req);
+    if (body instanceof Response) return body;
+    const id = typeof body.id === 'string' ? body.id : '';
+    const state = await store.read();
+    if (!state.workspaces.some((w) => w.id === id)) return errorResponse(404, 'unknown_workspace', `There's no workspace "${id}".`);
+    if (state.workspaces.length === 1) return errorResponse(400, 'last_workspace', "The last workspace can't be removed.");
+    return list(
+      await store.update((current) => {
+        if (current.workspaces.length > 1) current.workspaces = current.workspaces.filter((w) => w.id !== id);
+      }),
+    );
+  }
+
+  return { GET, PUT, DELETE };
+}
@@ -0,0 +1,118 @@
+import { DEFAULT_WORKSPACES } from './config';
+import type { SheetSource } from './sources';
+import type { MonthTarget, TargetConfig, TargetRange } from './targets';
+
+/**
+ * A named schedule (e.g. "CGM Land FL"): the sheet tabs it reads, its mail
+ * targets and the weekday its drops go out. Saved on the server (see
+ * lib/workspaceApi.ts) and edited on the Settings page.
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  sources: SheetSource[];
+  targets: TargetConfig;
+  /** 0 = Sunday … 6 = Saturday. */
+  dropWeekday: number;
+}
+
+export interface WorkspaceState {
+  workspaces: Workspace[];
+}
+
+const MAX_NAME = 80;
+const MAX_SOURCES = 20;
+
+/** A URL- and file-safe id from a name, e.g. "CGM Land FL" → "cgm-land-fl". */
+export const workspaceSlug = (name: string) =>
+  String(name || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || 'workspace';
+
+/** An id for a new workspace that isn't taken yet. */
+export function newWorkspaceId(name: string, taken: string[]): string {
+  const base = workspaceSlug(name);
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/** The workspace with this id, or the first one (the default) when there's none. */
+export const findWorkspace = (workspaces: Workspace[], id?: string | null): Workspace | undefined =>
+  workspaces.find((w) => w.id === id) || workspaces[0];
+
+/**
+ * Suffix that keeps a workspace's saved state apart from the others' (`-<id>`):
+ * the server's store files and the page's localStorage keys. Derived from the
+ * id alone, so reordering or removing workspaces never hands one workspace
+ * another's data. The built-in default workspace keeps "" — the names its data
+ * had before there were workspaces.
+ */
+export const workspaceSuffix = (id: string) => (id === DEFAULT_WORKSPACES[0].id ? '' : `-${id}`);
+
+const text = (v: unknown, max = 500) => (typeof v === 'string' ? v.trim().slice(0, max) : '');
+const fields = (v: unknown): Record<string, unknown> => (v && typeof v === 'object' ? (v as Record<string, unknown>) : {});
+
+const range = (v: unknown): TargetRange | null => {
+  const min = Number(fields(v).min);
+  const max = Number(fields(v).max);
+  return Number.isFinite(min) && Number.isFinite(max) && min >= 0 && max >= min ? { min, max } : null;
+};
+
+const monthTarget = (v: unknown): MonthTarget | null => {
+  const r = range(v);
+  if (!r) return null;
+  const byCategory = Object.entries(fields(fields(v).byCategory))
+    .map(([category, value]) => [category, range(value)] as const)
+    .filter(([category, value]) => category && value);
+  return byCategory.length ? { ...r, byCategory: Object.fromEntries(byCategory) } : r;
+};
+
+/**
+ * Checks a workspace sent by the Settings page and returns a clean copy, or a
+ * message saying what's wrong. Sources need a link; their ids are kept so the
+ * task statuses and column mappings attached to them carry over.
+ */
+export function validateWorkspace(input: unknown): Workspace | string {
+  const w = fields(input);
+  const id = text(w.id, 60);
+  const name = text(w.name, MAX_NAME);
+  if (!id || !/^[a-z0-9][a-z0-9-]*$/.test(id)) return 'Workspace id must be lowercase letters, digits and dashes.';
+  if (!name) return 'Give the workspace a name.';
+  const dropWeekday = Number(w.dropWeekday);
+  if (!Number.isInteger(dropWeekday) || dropWeekday < 0 || dropWeekday > 6) return 'Drop weekday must be 0 (Sunday) to 6 (Saturday).';
+  const targets = fields(w.targets);
+  const defaultTarget = monthTarget(targets.default);
+  if (!defaultTarget) return 'The default target needs a minimum and a maximum of at least the minimum.';
+  const months = Object.entries(fields(targets.months))
+    .filter(([key]) => /^\d{4}-\d{2}$/.test(key))
+    .map(([key, value]) => [key, monthTarget(value)] as const)
+    .filter(([, value]) => value);
+
+  const list: unknown[] = Array.isArray(w.sources) ? w.sources : [];
+  if (list.length > MAX_SOURCES) return `A workspace can have up to ${MAX_SOURCES} sources.`;
+  const sources: SheetSource[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const s = fields(list[i]);
+    const url = text(s.url, 2000);
+    if (!/^https?:\/\//i.test(url)) return `Source ${i + 1} needs a sheet link.`;
+    const sourceId = text(s.id, 60) || `${id}-${i + 1}`;
+    if (sources.some((other) => other.id === sourceId)) return `Two sources share the id "${sourceId}".`;
+    sources.push({
+      id: sourceId,
+      label: text(s.label, MAX_NAME) || `Source ${i + 1}`,
+      url,
+      ...(text(s.gid, 40) ? { gid: text(s.gid, 40) } : {}),
+      ...(text(s.category, 40) ? { category: text(s.category, 40) } : {}),
+    });
+  }
+  return {
+    id,
+    name,
+    sources,
+    targets: { default: defaultTarget, ...(months.length ? { months: Object.fromEntries(months) } : {}) },
+    dropWeekday,
+  };
+}
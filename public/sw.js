@@ -0,0 +1,51 @@
+// Service worker for the installable app. Pages are fetched from the network and the last copy is served offline;
+// built assets (/_next/static, icons) are cached on first use. API calls are never cached here: the sheets have
+// their own cache in IndexedDB (lib/offlineCache.ts) and completions queue in the page.
+const CACHE = 'tracker-v1';
+const SHELL = ['/', '/settings', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const req = event.request;
+  const url = new URL(req.url);
+  if (req.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(
+      caches.match(req).then(
+        (hit) =>
+          hit ||
+          fetch(req).then((res) => {
+            if (res.ok) caches.open(CACHE).then((cache) => cache.put(req, res.clone()));
+            return res;
+          }),
+      ),
+    );
+    return;
+  }
+
+  if (req.mode === 'navigate') {
+    // Query strings only hold view state, so every visit to a page shares one cached copy
+    const key = url.origin + url.pathname;
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          if (res.ok) caches.open(CACHE).then((cache) => cache.put(key, res.clone()));
+          return res;
+        })
+        .catch(() => caches.match(key).then((hit) => hit || caches.match('/'))),
+    );
+  }
+});
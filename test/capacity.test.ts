@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { conflictsByDay, findConflicts } from '../lib/capacity';
+import { CAPACITY_LIMITS } from '../lib/config';
+import type { TrackerRow } from '../lib/import';
+import type { ScheduledTask } from '../lib/schedule';
+
+const task = (type: ScheduledTask['type'], date: string, count: number, campaign = 'Lakes DM1'): ScheduledTask => ({
+  type,
+  date: new Date(`${date}T00:00:00`),
+  idKey: `${type}|fp:${campaign.toLowerCase()}::::|${date}`,
+  count,
+  ref: { campaign } as TrackerRow,
+  label: `${type} ${campaign}`,
+});
+
+describe('findConflicts', () => {
+  const tasks = [
+    // Monday and Thursday of one week, then the next Monday
+    task('mail', '2024-05-06', 3000, 'Lakes DM1'),
+    task('mail', '2024-05-09', 2500, 'Prairie DM1'),
+    task('mail', '2024-05-13', 4000, 'Lakes DM2'),
+    task('mail', '2024-05-13', 500, 'Prairie DM2'),
+    task('mail', '2024-05-13', 200, 'lakes dm2 '),
+    task('text', '2024-05-20', 800),
+    task('text', '2024-05-20', 900, 'Prairie DM1'),
+    task('text', '2024-05-21', 1000),
+    task('vm', '2024-05-20', 400),
+  ];
+
+  it('checks nothing with the shipped limits', () => {
+    assert.deepEqual(findConflicts(tasks, CAPACITY_LIMITS), []);
+    assert.deepEqual(findConflicts(tasks, {}), []);
+  });
+
+  it('adds up mail pieces per Monday–Sunday week', () => {
+    const conflicts = findConflicts(tasks, { piecesPerWeek: 5000 });
+    assert.deepEqual(conflicts.map((c) => [c.kind, c.actual, c.tasks.length]), [['piecesPerWeek', 5500, 2]]);
+    assert.deepEqual([conflicts[0].start, conflicts[0].end.getDate()], [new Date('2024-05-06T00:00:00'), 12]);
+    assert.equal(conflicts[0].message, '5,500 pieces in the week of May 6 (limit 5,000)');
+  });
+
+  it('adds up texts and voicemails per day by list size', () => {
+    const conflicts = findConflicts(tasks, { textsPerDay: 1000, voicemailsPerDay: 400 });
+    assert.deepEqual(conflicts.map((c) => [c.kind, c.actual]), [['textsPerDay', 1700]]);
+    assert.equal(conflicts[0].message, '1,700 texts on Mon, May 20 (limit 1,000)');
+    assert.deepEqual(findConflicts(tasks, { voicemailsPerDay: 399 }).map((c) => c.kind), ['voicemailsPerDay']);
+  });
+
+  it('counts different campaigns on one drop day', () => {
+    // "Lakes DM2" and "lakes dm2 " are the same campaign
+    assert.deepEqual(findConflicts(tasks, { campaignsPerDrop: 2 }), []);
+    const conflicts = findConflicts(tasks, { campaignsPerDrop: 1 });
+    assert.deepEqual(conflicts.map((c) => [c.kind, c.actual, c.tasks.length]), [['campaignsPerDrop', 2, 3]]);
+  });
+
+  it('returns conflicts in date order and marks each day behind them', () => {
+    const conflicts = findConflicts(tasks, { piecesPerWeek: 4500, textsPerDay: 1000, campaignsPerDrop: 1 });
+    assert.deepEqual(conflicts.map((c) => c.kind), ['piecesPerWeek', 'piecesPerWeek', 'campaignsPerDrop', 'textsPerDay']);
+    const byDay = conflictsByDay(conflicts);
+    assert.deepEqual([...byDay.keys()].sort(), ['2024-05-06', '2024-05-09', '2024-05-13', '2024-05-20']);
+    assert.equal(byDay.get('2024-05-13')!.length, 2);
+  });
+});
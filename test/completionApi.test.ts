@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { DEFAULT_WORKSPACES } from '../lib/config';
+import { createCompletionHandlers } from '../lib/completionApi';
+import { createWorkspaceHandlers } from '../lib/workspaceApi';
+
+const call = (method: string, query: string, body?: unknown) =>
+  new Request(`http://tracker.test/api/completions${query}`, {
+    method,
+    ...(body ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+  });
+
+describe('/api/completions', () => {
+  let dir = '';
+  const previousDir = process.env.TRACKER_DATA_DIR;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tracker-completions-'));
+    process.env.TRACKER_DATA_DIR = dir;
+    const workspace = { ...DEFAULT_WORKSPACES[0], id: 'ok', name: 'OK' };
+    await createWorkspaceHandlers().PUT(new Request('http://tracker.test/api/workspaces', { method: 'PUT', body: JSON.stringify({ workspace }) }));
+  });
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    if (previousDir === undefined) delete process.env.TRACKER_DATA_DIR;
+    else process.env.TRACKER_DATA_DIR = previousDir;
+  });
+
+  const keys = async (query: string) => {
+    const { GET } = createCompletionHandlers();
+    return (await (await GET(call('GET', query))).json()).completions.map((c: { key: string }) => c.key);
+  };
+
+  it("keeps each workspace's statuses apart", async () => {
+    const { POST, DELETE } = createCompletionHandlers();
+    assert.equal((await POST(call('POST', '', { key: 'text|fp:lakes dm1::::', user: 'Ann', status: 'sent' }))).status, 200);
+    assert.equal((await POST(call('POST', '?workspace=ok', { key: 'text|fp:prairie dm1::::', user: 'Bo', status: 'sent' }))).status, 200);
+    assert.deepEqual(await keys(''), ['text|fp:lakes dm1::::']);
+    assert.deepEqual(await keys('?workspace=ok'), ['text|fp:prairie dm1::::']);
+
+    // Clearing a key in one workspace leaves the other's alone
+    await DELETE(call('DELETE', '?workspace=ok', { key: 'text|fp:lakes dm1::::', user: 'Bo' }));
+    assert.deepEqual(await keys(''), ['text|fp:lakes dm1::::']);
+    assert.equal(JSON.parse(await fs.readFile(path.join(dir, 'completions-ok.json'), 'utf8')).completions['text|fp:prairie dm1::::'].user, 'Bo');
+  });
+
+  it('clears a note when it is saved empty, and keeps it when no note is sent', async () => {
+    const { POST } = createCompletionHandlers();
+    const record = async (body: object) => {
+      const snapshot = await (await POST(call('POST', '?workspace=ok', { key: 'vm|fp:note test::::', user: 'Ann', ...body }))).json();
+      return snapshot.completions.find((c: { key: string }) => c.key === 'vm|fp:note test::::');
+    };
+    assert.equal((await record({ status: 'sent', note: 'Left a voicemail' })).note, 'Left a voicemail');
+    assert.equal((await record({ status: 'sent', date: '2025-10-07' })).note, 'Left a voicemail');
+    assert.equal((await record({ note: '  ' })).note, undefined);
+    assert.equal((await record({ note: 'Called back' })).note, 'Called back');
+    assert.equal((await record({ status: 'sent', note: '' })).note, undefined);
+
+    const { log } = JSON.parse(await fs.readFile(path.join(dir, 'completions-ok.json'), 'utf8'));
+    const notes = log.filter((e: { key: string; action: string }) => e.key === 'vm|fp:note test::::' && e.action === 'noted');
+    assert.deepEqual(notes.map((e: { note?: string }) => e.note), ['', 'Called back', '']);
+  });
+
+  it('answers 404 for an unknown workspace', async () => {
+    const { GET, POST } = createCompletionHandlers();
+    assert.equal((await GET(call('GET', '?workspace=nope'))).status, 404);
+    assert.equal((await POST(call('POST', '?workspace=nope', { key: 'text|fp:x::::', user: 'Ann' }))).status, 404);
+  });
+});
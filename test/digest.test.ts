@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { digestSections, sectionsFor, type DigestConfig } from '../lib/digest';
+import { createDigestHandlers } from '../lib/digestApi';
+import { loadSchedule } from '../lib/schedule';
+import { BLOCKED_DAYS, CADENCE_RULES } from '../lib/config';
+import { mimeParts, startSmtpSink } from './smtpSink';
+
+const CSV = [
+  'Date,Campaign,Count,Category',
+  '2025-09-29,Lakes DM1,1200,FL',
+  '2025-10-01,Prairie DM1,800,OK',
+  '2025-10-08,Lakes DM2,1500,FL',
+  '2025-10-09,Prairie DM2,900,OK',
+].join('\n');
+
+// Monday Oct 6, 2025 at 07:15 UTC, the slot the config below sends in
+const NOW = new Date('2025-10-06T07:15:00Z');
+
+const config: DigestConfig = {
+  from: 'Marketing Tracker <tracker@localhost>',
+  schedule: { weekdays: [1], hour: 7, timeZone: 'UTC' },
+  recipients: [
+    { email: 'fl@example.com', name: 'Flo', categories: ['FL'] },
+    { email: 'texts@example.com', channels: ['text'] },
+  ],
+  overdueDays: 30,
+};
+
+const allTasks = (s: ReturnType<typeof digestSections>) => [...s.overdue, ...s.thisWeek, ...s.nextWeek];
+
+describe('sectionsFor', () => {
+  it("keeps only the recipient's Categories and channels", async () => {
+    const { tasks } = await loadSchedule([{ id: 'test', label: 'Test', url: 'fixture' }], async () => ({ csv: CSV }), CADENCE_RULES, BLOCKED_DAYS);
+    const sections = digestSections(tasks, {}, { today: new Date(2025, 9, 6), overdueDays: 30 });
+    const everything = allTasks(sections);
+    assert.ok(everything.some((t) => t.ref.category === 'OK') && everything.some((t) => t.type !== 'text'));
+
+    const fl = allTasks(sectionsFor(sections, config.recipients[0]));
+    assert.ok(fl.length > 0);
+    assert.deepEqual(fl, everything.filter((t) => t.ref.category === 'FL'));
+
+    const texts = allTasks(sectionsFor(sections, config.recipients[1]));
+    assert.ok(texts.length > 0);
+    assert.deepEqual(texts, everything.filter((t) => t.type === 'text'));
+  });
+});
+
+describe('POST /api/digest', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+  let dir = '';
+  const previousDir = process.env.TRACKER_DATA_DIR;
+
+  before(async () => {
+    sink = await startSmtpSink();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tracker-digest-'));
+    process.env.TRACKER_DATA_DIR = dir;
+  });
+  after(async () => {
+    await sink.close();
+    await fs.rm(dir, { recursive: true, force: true });
+    if (previousDir === undefined) delete process.env.TRACKER_DATA_DIR;
+    else process.env.TRACKER_DATA_DIR = previousDir;
+  });
+
+  const handlers = () =>
+    createDigestHandlers({
+      config,
+      now: () => NOW,
+      smtp: { host: '127.0.0.1', port: sink.port, secure: false },
+      fetcher: async () => new Response(CSV, { headers: { 'Content-Type': 'text/csv' } }),
+    });
+
+  it('mails each recipient their part once per slot', async () => {
+    const { POST } = handlers();
+    const first = await (await POST(new Request('http://tracker.test/api/digest', { method: 'POST' }))).json();
+    assert.deepEqual(first, { slot: '2025-10-06T07', sent: 2, failed: [] });
+    assert.deepEqual(
+      sink.messages.map((m) => m.to),
+      [['<fl@example.com>'], ['<texts@example.com>']],
+    );
+
+    const [fl, texts] = sink.messages.map((m) => mimeParts(m.data)['text/plain']);
+    assert.match(fl, /^Hi Flo,/);
+    assert.match(fl, /Lakes DM1/);
+    assert.doesNotMatch(fl, /Prairie/);
+    assert.match(fl, /You follow: FL\./);
+    assert.match(texts, /Text • Prairie DM1/);
+    assert.doesNotMatch(texts, /Mail •|VM •/);
+
+    const again = await (await POST(new Request('http://tracker.test/api/digest', { method: 'POST' }))).json();
+    assert.deepEqual(again, { sent: 0, skipped: 'already_sent', slot: '2025-10-06T07' });
+    assert.equal(sink.messages.length, 2);
+  });
+});
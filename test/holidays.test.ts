@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { federalHolidays, holidayOn } from '../lib/holidays';
+
+describe('federalHolidays', () => {
+  it('lists a Saturday New Year observance once, under the year before', () => {
+    // Jan 1, 2022 was a Saturday
+    const both = [...federalHolidays(2021), ...federalHolidays(2022)].filter((h) => h.date === '2021-12-31');
+    assert.deepEqual(both, [{ date: '2021-12-31', name: "New Year's Day", observed: true }]);
+    assert.ok(federalHolidays(2022).every((h) => h.date.startsWith('2022-')));
+    assert.equal(holidayOn(new Date(2021, 11, 31))?.name, "New Year's Day");
+  });
+
+  it('observes other Saturday holidays on the Friday before', () => {
+    // Jul 4, 2026 is a Saturday
+    assert.deepEqual(
+      federalHolidays(2026).filter((h) => h.name === 'Independence Day').map((h) => h.date),
+      ['2026-07-03', '2026-07-04'],
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { assignRowIdentities, parseLegacyKey, reconcileCompletions, taskId, type KeyedTask } from '../lib/identity';
+import type { TrackerRow } from '../lib/import';
+
+const row = (campaign: string, part: string, batch: string, date: string, extra: Record<string, string> = {}) =>
+  ({ campaign, part, batch, mailDate: new Date(`${date}T00:00:00`), raw: { Date: date, ...extra } }) as unknown as TrackerRow;
+
+const task = (type: string, date: string, r: TrackerRow, identity: string, touch = 1): KeyedTask => ({
+  type,
+  date: new Date(`${date}T00:00:00`),
+  idKey: taskId(type, identity, touch),
+  touch,
+  ref: r,
+});
+
+describe('parseLegacyKey', () => {
+  it('reads the date, campaign, part, batch and touch', () => {
+    assert.deepEqual(parseLegacyKey('text|2024-05-19|Lakes DM1|A|3'), { type: 'text', date: '2024-05-19', campaign: 'Lakes DM1', part: 'A', batch: '3', touch: 1 });
+    assert.deepEqual(parseLegacyKey('text|2024-05-27|Lakes DM1|A|3|2'), { type: 'text', date: '2024-05-27', campaign: 'Lakes DM1', part: 'A', batch: '3', touch: 2 });
+    assert.equal(parseLegacyKey('text|fp:lakes dm1::a::3'), null);
+  });
+});
+
+describe('reconcileCompletions', () => {
+  const dm1 = row('Lakes DM1', 'A', '3', '2024-05-06');
+  const dm1Again = row('Lakes DM1', 'A', '3', '2024-06-03');
+  const tasks = [
+    task('text', '2024-05-19', dm1, 'fp:lakes dm1::a::3'),
+    task('text', '2024-06-16', dm1Again, 'fp:lakes dm1::a::3#2'),
+    task('text', '2024-05-27', dm1, 'fp:lakes dm1::a::3', 2),
+    task('vm', '2024-05-19', dm1, 'fp:lakes dm1::a::3'),
+  ];
+
+  it('moves a date-based key to the task with the closest date', () => {
+    // Saved under the old date; the row's follow-up has since moved by a day
+    const { rekeys, orphans } = reconcileCompletions(['text|2024-06-17|Lakes DM1|A|3'], tasks);
+    assert.deepEqual(rekeys, [{ from: 'text|2024-06-17|Lakes DM1|A|3', to: 'text|fp:lakes dm1::a::3#2' }]);
+    assert.deepEqual(orphans, []);
+  });
+
+  it('matches the touch as well as the type', () => {
+    const { rekeys } = reconcileCompletions(['text|2024-05-27|lakes dm1|a|3|2', 'vm|2024-05-19|Lakes DM1|A|3'], tasks);
+    assert.deepEqual(rekeys, [
+      { from: 'text|2024-05-27|lakes dm1|a|3|2', to: 'text|fp:lakes dm1::a::3|2' },
+      { from: 'vm|2024-05-19|Lakes DM1|A|3', to: 'vm|fp:lakes dm1::a::3' },
+    ]);
+  });
+
+  it("doesn't move a key onto a task that already has one", () => {
+    // The May task already has a current key, so the old May key goes to the only other candidate
+    const { rekeys } = reconcileCompletions(['text|fp:lakes dm1::a::3', 'text|2024-05-19|Lakes DM1|A|3'], tasks);
+    assert.deepEqual(rekeys, [{ from: 'text|2024-05-19|Lakes DM1|A|3', to: 'text|fp:lakes dm1::a::3#2' }]);
+
+    // Two old keys for the same row claim one task each; a third has nothing left
+    const both = reconcileCompletions(['text|2024-05-19|Lakes DM1|A|3', 'text|2024-05-20|Lakes DM1|A|3', 'text|2024-06-16|Lakes DM1|A|3'], tasks);
+    assert.deepEqual(both.rekeys.map((r) => r.to), ['text|fp:lakes dm1::a::3', 'text|fp:lakes dm1::a::3#2']);
+    assert.deepEqual(both.orphans, ['text|2024-06-16|Lakes DM1|A|3']);
+  });
+
+  it('reports keys that match no task as orphans', () => {
+    const keys = ['text|2024-05-19|Prairie DM1|A|3', 'vm|2024-05-19|Lakes DM1|A|3|2', 'text|id:gone', 'text|fp:lakes dm1::a::3'];
+    const { rekeys, orphans } = reconcileCompletions(keys, tasks);
+    assert.deepEqual(rekeys, []);
+    assert.deepEqual(orphans, ['text|2024-05-19|Prairie DM1|A|3', 'vm|2024-05-19|Lakes DM1|A|3|2', 'text|id:gone']);
+  });
+});
+
+describe('assignRowIdentities', () => {
+  it('numbers rows sharing a fingerprint by their original Date', () => {
+    const rows = [
+      row('Lakes DM1', 'A', '3', '2024-06-03'),
+      row('Lakes DM1', 'A', '3', '2024-05-06'),
+      row('Lakes DM1', 'B', '3', '2024-05-06'),
+      row('Lakes DM1', 'A', '3', '2024-07-01', { ID: 'R-17' }),
+    ];
+    assert.deepEqual(
+      assignRowIdentities(rows).map((r) => r.identity),
+      ['fp:lakes dm1::a::3#2', 'fp:lakes dm1::a::3', 'fp:lakes dm1::b::3', 'id:R-17'],
+    );
+  });
+
+  it('keeps the numbering when an adjusted date moves a row past its twin', () => {
+    const early = { ...row('Lakes DM1', 'A', '3', '2024-05-06'), mailDate: new Date('2024-07-15T00:00:00') } as TrackerRow;
+    const late = row('Lakes DM1', 'A', '3', '2024-06-03');
+    assert.deepEqual(
+      assignRowIdentities([late, early]).map((r) => r.identity),
+      ['fp:lakes dm1::a::3#2', 'fp:lakes dm1::a::3'],
+    );
+  });
+});
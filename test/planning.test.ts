@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { format } from 'date-fns';
+import type { BlockedDays } from '../lib/holidays';
+import { draftDropDates, draftRows, monthFits, suggestSplit, type DraftPlan } from '../lib/planning';
+import type { MailDrop, TargetConfig } from '../lib/targets';
+
+const MONDAY = 1;
+const day = (s: string) => new Date(`${s}T00:00:00`);
+const ymd = (dates: Date[]) => dates.map((d) => format(d, 'yyyy-MM-dd'));
+
+const blocked: BlockedDays = { weekdays: [0, 6], holidays: true, blackoutDates: ['2024-06-03'], policy: 'next' };
+// May: 10,000–12,000 pieces; June: 8,000–9,000
+const targets: TargetConfig = { default: { min: 10000, max: 12000 }, months: { '2024-06': { min: 8000, max: 9000 } } };
+const drops: MailDrop[] = [
+  { mailDate: day('2024-05-06'), count: 7000 },
+  { mailDate: day('2024-06-17'), count: 5000 },
+];
+
+const plan: DraftPlan = {
+  id: 'd1', campaign: 'Lakes DM3', category: 'FL', part: 'A', channels: 'Mail,Text,Voicemail',
+  total: 9000, batches: 4, start: '2024-05-18', counts: [],
+};
+
+describe('draftDropDates', () => {
+  it('takes the next drop weekdays, skipping holidays and blackout dates', () => {
+    // Memorial Day is May 27 and June 3 is blacked out
+    assert.deepEqual(ymd(draftDropDates(plan, MONDAY, blocked)), ['2024-05-20', '2024-06-10', '2024-06-17', '2024-06-24']);
+    assert.deepEqual(ymd(draftDropDates(plan, MONDAY)), ['2024-05-20', '2024-05-27', '2024-06-03', '2024-06-10']);
+  });
+
+  it('returns nothing for a start that is not a date', () => {
+    assert.deepEqual(draftDropDates({ start: '', batches: 3 }, MONDAY, blocked), []);
+  });
+});
+
+describe('suggestSplit', () => {
+  const dates = draftDropDates(plan, MONDAY, blocked);
+
+  it('brings every month to its minimum before filling headroom', () => {
+    // May needs 3,000 and June 3,000; the rest goes to May's headroom (2,000), then June's
+    assert.deepEqual(suggestSplit(9000, dates, drops, targets), { counts: [5000, 1334, 1333, 1333], fits: true });
+    // Too little for both minimums: May is met first and June gets what is left
+    assert.deepEqual(suggestSplit(5000, dates, drops, targets), { counts: [3000, 667, 667, 666], fits: true });
+  });
+
+  it('spreads what no month can take across every batch', () => {
+    const { counts, fits } = suggestSplit(12000, dates, drops, targets);
+    assert.equal(fits, false);
+    assert.deepEqual(counts, [5750, 2084, 2083, 2083]);
+    assert.deepEqual(monthFits(dates, counts, drops, targets).map((f) => [f.monthKey, f.existing, f.added, f.status]), [
+      ['2024-05', 7000, 5750, 'above'],
+      ['2024-06', 5000, 6250, 'above'],
+    ]);
+  });
+});
+
+describe('monthFits', () => {
+  it('measures each month the plan touches with and without it', () => {
+    const dates = draftDropDates(plan, MONDAY, blocked);
+    assert.deepEqual(monthFits(dates, [1000, 1000, 1000, 1000], drops, targets), [
+      { monthKey: '2024-05', min: 10000, max: 12000, existing: 7000, added: 1000, status: 'below' },
+      { monthKey: '2024-06', min: 8000, max: 9000, existing: 5000, added: 3000, status: 'within' },
+    ]);
+  });
+});
+
+describe('draftRows', () => {
+  it('leaves out batches with no pieces and keeps the others numbered', () => {
+    const dates = draftDropDates(plan, MONDAY, blocked);
+    const rows = draftRows({ ...plan, counts: [5000, 0, 4000, 0] }, dates);
+    assert.deepEqual(rows.map((r) => [r.Date, r.Batch, r.Count]), [['2024-05-20', 'B1', 5000], ['2024-06-17', 'B3', 4000]]);
+  });
+});
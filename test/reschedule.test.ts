@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { format } from 'date-fns';
+import type { TrackerRow } from '../lib/import';
+import { applyDateChanges, monthTotalsForMove, proposeMove, type DateChange } from '../lib/reschedule';
+
+const day = (s: string) => new Date(`${s}T00:00:00`);
+
+const row = (identity: string, date: string, count: number, campaign = 'Lakes DM1') =>
+  ({ identity, campaign, part: 'A', batch: 'B1', mailDate: day(date), hasMail: true, count, raw: {} }) as unknown as TrackerRow;
+
+const rows = [
+  row('fp:lakes dm1::a::b1', '2024-05-27', 3000),
+  row('fp:lakes dm2::a::b1', '2024-05-20', 2000, 'Lakes DM2'),
+  row('fp:prairie dm1::a::b1', '2024-06-10', 4000, 'Prairie DM1'),
+];
+
+const move = (identity: string, from: string, to: string, at = '2024-05-01T12:00:00.000Z'): DateChange => ({ identity, label: identity, from, to, at });
+const dates = (list: TrackerRow[]) => list.map((r) => format(r.mailDate, 'yyyy-MM-dd'));
+
+describe('applyDateChanges', () => {
+  it("moves each row to its latest change's date and leaves the rest alone", () => {
+    const changes = [move('fp:lakes dm1::a::b1', '2024-05-27', '2024-06-03'), move('fp:lakes dm1::a::b1', '2024-06-03', '2024-06-17')];
+    const moved = applyDateChanges(rows, changes);
+    assert.deepEqual(dates(moved), ['2024-06-17', '2024-05-20', '2024-06-10']);
+    assert.equal(moved[1], rows[1]);
+    assert.deepEqual(dates(rows), ['2024-05-27', '2024-05-20', '2024-06-10'], 'the input rows are not changed');
+  });
+
+  it('ignores a change for a row that is no longer in the schedule', () => {
+    const moved = applyDateChanges(rows, [move('fp:gone::a::b1', '2024-05-13', '2024-05-20')]);
+    assert.deepEqual(dates(moved), dates(rows));
+    assert.equal(moved.length, rows.length);
+  });
+});
+
+describe('monthTotalsForMove', () => {
+  const change = proposeMove({ date: day('2024-05-27'), ref: rows[0] }, day('2024-06-03'), new Date('2024-05-01T12:00:00Z'));
+
+  it('shows the pieces leaving one month and arriving in the next', () => {
+    assert.deepEqual(change, { ...move('fp:lakes dm1::a::b1', '2024-05-27', '2024-06-03'), label: 'Lakes DM1 • A • B1' });
+    assert.deepEqual(monthTotalsForMove(rows, change), [
+      { monthKey: '2024-05', before: 5000, after: 2000 },
+      { monthKey: '2024-06', before: 4000, after: 7000 },
+    ]);
+  });
+
+  it('puts both months back when the move is undone', () => {
+    const changes = [change];
+    const moved = applyDateChanges(rows, changes);
+    const undone = applyDateChanges(rows, changes.filter((_, i) => i !== changes.length - 1));
+    const back = move(change.identity, change.to, change.from);
+    assert.deepEqual(monthTotalsForMove(moved, back), [
+      { monthKey: '2024-06', before: 7000, after: 4000 },
+      { monthKey: '2024-05', before: 2000, after: 5000 },
+    ]);
+    assert.deepEqual(dates(undone), dates(rows));
+  });
+
+  it('changes nothing for a row that is no longer in the schedule', () => {
+    assert.deepEqual(monthTotalsForMove(rows, move('fp:gone::a::b1', '2024-05-13', '2024-06-03')), [
+      { monthKey: '2024-05', before: 5000, after: 5000 },
+      { monthKey: '2024-06', before: 4000, after: 4000 },
+    ]);
+  });
+});
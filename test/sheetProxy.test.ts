@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { SheetError } from '../lib/sheet';
+import { createSheetLoader, sheetErrorResponse, type SheetFetcher } from '../lib/sheetProxy';
+
+const CSV = 'Date,Task\n2024-05-06,Mail drop\n2024-05-13,Postcards\n';
+
+/**
+ * Stands in for docs.google.com: each sheet id answers the way Google does
+ * for that kind of sheet.
+ */
+function fixture(req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url || '/', 'http://fixture');
+  const id = url.pathname.match(/\/spreadsheets\/d\/([^/]+)/)?.[1];
+  if (url.pathname === '/ServiceLogin') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end('<!DOCTYPE html><html><title>Sign in – Google Accounts</title></html>');
+  }
+  if (id === 'private') {
+    res.writeHead(302, { Location: `/ServiceLogin?continue=${encodeURIComponent(req.url || '')}` });
+    return res.end();
+  }
+  if (id === 'unpublished') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end('<!DOCTYPE html><html><body>Sorry, unable to open the file at this time.</body></html>');
+  }
+  if (id === 'public' && url.searchParams.get('gid') === '999') {
+    res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+    return res.end('<html><body>Bad Request</body></html>');
+  }
+  if (id === 'public' || id === 'empty') {
+    res.writeHead(200, { 'Content-Type': 'text/csv', ETag: '"v1"' });
+    return res.end(id === 'empty' ? 'Date,Task\n\n' : CSV);
+  }
+  res.writeHead(404);
+  res.end();
+}
+
+describe('createSheetLoader', () => {
+  const server = http.createServer(fixture);
+  let base = '';
+  // Sends the docs.google.com request to the fixture server instead
+  const fetcher: SheetFetcher = (url, init) => fetch(url.replace('https://docs.google.com', base), init);
+  const sheet = (id: string) => `https://docs.google.com/spreadsheets/d/${id}/edit#gid=0`;
+
+  const loadError = async (load: Promise<unknown>): Promise<SheetError> => {
+    try {
+      await load;
+    } catch (e) {
+      assert.ok(e instanceof SheetError, `expected a SheetError, got ${e}`);
+      return e;
+    }
+    assert.fail('expected the load to fail');
+  };
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it('loads a published sheet through the fetcher', async () => {
+    const loaded = await createSheetLoader({ fetcher })(sheet('public'));
+    assert.equal(loaded.rowCount, 2);
+    assert.equal(loaded.csv, 'Date,Task\n2024-05-06,Mail drop\n2024-05-13,Postcards');
+    assert.equal(loaded.upstreamEtag, '"v1"');
+  });
+
+  it('maps a sheet that is not shared to not_published', async () => {
+    const err = await loadError(createSheetLoader({ fetcher })(sheet('unpublished')));
+    assert.equal(err.code, 'not_published');
+    assert.equal(sheetErrorResponse(err).status, 502);
+  });
+
+  it('maps a redirect to the Google sign-in page to login_page', async () => {
+    const err = await loadError(createSheetLoader({ fetcher })(sheet('private')));
+    assert.equal(err.code, 'login_page');
+  });
+
+  it('maps a missing tab to wrong_gid', async () => {
+    const err = await loadError(createSheetLoader({ fetcher })(sheet('public'), '999'));
+    assert.equal(err.code, 'wrong_gid');
+    assert.equal(err.upstreamStatus, 400);
+  });
+
+  it('maps a tab with only a header row to empty_tab', async () => {
+    const err = await loadError(createSheetLoader({ fetcher })(sheet('empty')));
+    assert.equal(err.code, 'empty_tab');
+    assert.equal(sheetErrorResponse(err).status, 422);
+  });
+
+  it('maps a fetcher that throws to network', async () => {
+    const failing: SheetFetcher = () => Promise.reject(new TypeError('fetch failed'));
+    const err = await loadError(createSheetLoader({ fetcher: failing })(sheet('public')));
+    assert.equal(err.code, 'network');
+  });
+
+  it('keeps at most maxEntries sheets, dropping the least recently used', async () => {
+    const fetched: string[] = [];
+    const counting: SheetFetcher = (url, init) => (fetched.push(url), fetcher(url, init));
+    const load = createSheetLoader({ fetcher: counting, maxEntries: 2, maxAgeSeconds: 600 });
+    await load(sheet('public'), '1');
+    await load(sheet('public'), '2');
+    await load(sheet('public'), '1');
+    assert.equal(fetched.length, 2, 'the first tab is still cached');
+    await load(sheet('public'), '3');
+    await load(sheet('public'), '2');
+    assert.equal(fetched.length, 4, 'tab 2 was evicted when tab 3 came in');
+    await load(sheet('public'), '3');
+    assert.equal(fetched.length, 4);
+  });
+
+  it('refuses hosts that are not allowed before fetching', async () => {
+    let fetched = false;
+    const spy: SheetFetcher = (url, init) => ((fetched = true), fetcher(url, init));
+    const err = await loadError(createSheetLoader({ fetcher: spy, allowedHosts: [] })(`${base}/spreadsheets/d/public/export?format=csv`));
+    assert.equal(err.code, 'host_not_allowed');
+    assert.equal(fetched, false);
+  });
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import { after, before, describe, it } from 'node:test';
+import { SmtpError, dotStuff, sendMail, type MailMessage } from '../lib/smtp';
+import { mimeParts, startSmtpSink } from './smtpSink';
+
+const message: MailMessage = {
+  from: 'Marketing Tracker <tracker@localhost>',
+  to: ['Ann <ann@example.com>', 'bob@example.com'],
+  subject: 'Marketing schedule — week of Oct 6',
+  text: 'Hi,\n.\n.leading dot\nÜnïcode',
+  html: '<p>Hi</p>',
+};
+
+// An address of this machine that isn't loopback, to look like a remote server
+const lanAddress = Object.values(os.networkInterfaces())
+  .flat()
+  .find((a) => a && a.family === 'IPv4' && !a.internal)?.address;
+
+describe('dotStuff', () => {
+  it('doubles a dot at the start of every line, and only there', () => {
+    assert.equal(dotStuff('.\r\nfine. ok\r\n..two\r\n.end'), '..\r\nfine. ok\r\n...two\r\n..end');
+  });
+});
+
+describe('sendMail', () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+  before(async () => {
+    sink = await startSmtpSink();
+  });
+  after(() => sink.close());
+
+  it('speaks EHLO, MAIL, RCPT and DATA and sends a multipart body', async () => {
+    sink.commands.length = 0;
+    await sendMail({ host: '127.0.0.1', port: sink.port, secure: false }, message);
+    assert.deepEqual(sink.commands, [
+      'EHLO marketing-tracker',
+      'MAIL FROM:<tracker@localhost>',
+      'RCPT TO:<ann@example.com>',
+      'RCPT TO:<bob@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    const { data, rawLines } = sink.messages[sink.messages.length - 1];
+    assert.ok(!rawLines.includes('.'), 'the body never ends DATA early');
+    assert.match(data, /^To: Ann <ann@example\.com>, bob@example\.com$/m);
+    assert.match(data, /^Subject: =\?UTF-8\?B\?/m);
+    assert.match(data, /^Content-Type: multipart\/alternative; boundary="/m);
+    const parts = mimeParts(data);
+    assert.equal(parts['text/plain'], message.text);
+    assert.equal(parts['text/html'], message.html);
+  });
+
+  it('sends AUTH PLAIN to a local server without TLS', async () => {
+    sink.commands.length = 0;
+    await sendMail({ host: 'localhost', port: sink.port, secure: false, user: 'ann', pass: 'secret' }, message);
+    assert.equal(sink.commands[1], `AUTH PLAIN ${Buffer.from('\0ann\0secret').toString('base64')}`);
+  });
+
+  it('refuses AUTH to a remote server without TLS', { skip: !lanAddress && 'no non-loopback address' }, async () => {
+    sink.commands.length = 0;
+    await assert.rejects(sendMail({ host: lanAddress, port: sink.port, secure: false, user: 'ann', pass: 'secret' }, message), SmtpError);
+    assert.ok(!sink.commands.some((c) => c.startsWith('AUTH')), 'no credentials went out');
+  });
+});
@@ -0,0 +1,95 @@
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+
+export interface SunkMessage {
+  from: string;
+  to: string[];
+  /** The DATA section with dot-stuffing undone, CRLF line endings. */
+  data: string;
+  /** DATA lines as they came over the wire. */
+  rawLines: string[];
+}
+
+/**
+ * A throwaway SMTP server that accepts everything (no TLS, so no STARTTLS)
+ * and keeps what it's sent. Listens on all interfaces so a test can also
+ * reach it through a non-loopback address.
+ */
+export async function startSmtpSink() {
+  const commands: string[] = [];
+  const messages: SunkMessage[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    let buffer = '';
+    let mail: SunkMessage = { from: '', to: [], data: '', rawLines: [] };
+    let inData = false;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let nl: number;
+      while ((nl = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, nl);
+        buffer = buffer.slice(nl + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            mail.data = mail.rawLines.map((l) => (l.startsWith('.') ? l.slice(1) : l)).join('\r\n') + '\r\n';
+            messages.push(mail);
+            mail = { from: '', to: [], data: '', rawLines: [] };
+            reply('250 Queued');
+          } else {
+            mail.rawLines.push(line);
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') reply('250-sink\r\n250 8BITMIME');
+        else if (verb === 'AUTH') reply('235 Authenticated');
+        else if (verb === 'MAIL') {
+          mail.from = line.replace(/^MAIL FROM:/i, '');
+          reply('250 OK');
+        } else if (verb === 'RCPT') {
+          mail.to.push(line.replace(/^RCPT TO:/i, ''));
+          reply('250 OK');
+        } else if (verb === 'DATA') {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else reply('502 Not implemented');
+      }
+    });
+    reply('220 sink ready');
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '0.0.0.0', resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const socket of sockets) socket.destroy();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/** The decoded text/plain and text/html parts of a multipart/alternative message. */
+export function mimeParts(data: string): Record<string, string> {
+  const boundary = data.match(/boundary="([^"]+)"/)?.[1];
+  if (!boundary) return {};
+  const parts: Record<string, string> = {};
+  for (const chunk of data.split(`--${boundary}`).slice(1, -1)) {
+    const [head, body] = chunk.split('\r\n\r\n');
+    const type = head.match(/Content-Type: ([^;\r\n]+)/i)?.[1];
+    if (type) parts[type] = Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+  }
+  return parts;
+}
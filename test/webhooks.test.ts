@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { createWebhookHandlers } from '../lib/webhookApi';
+
+const CSV = 'Date,Campaign,Count,Category\n2025-09-29,Lakes DM1,1200,FL\n';
+// The day Lakes DM1's text follow-up is due
+const NOW = new Date('2025-10-09T15:00:00Z');
+
+describe('POST /api/webhooks', () => {
+  let dir = '';
+  const saved = { dir: process.env.TRACKER_DATA_DIR, secret: process.env.WEBHOOK_SECRET };
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tracker-webhooks-'));
+    process.env.TRACKER_DATA_DIR = dir;
+    delete process.env.WEBHOOK_SECRET;
+  });
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    for (const [key, name] of [['dir', 'TRACKER_DATA_DIR'], ['secret', 'WEBHOOK_SECRET']] as const) {
+      if (saved[key] === undefined) delete process.env[name];
+      else process.env[name] = saved[key];
+    }
+  });
+
+  // Each test keeps its own log
+  const run = async (file: string, endpoint: { url: string; secret?: string }) => {
+    const posted: { url: string; init: RequestInit }[] = [];
+    const { POST, GET } = createWebhookHandlers({
+      endpoints: [{ ...endpoint, events: ['task.due'] }],
+      now: () => NOW,
+      file,
+      fetcher: async () => new Response(CSV, { headers: { 'Content-Type': 'text/csv' } }),
+      postFetcher: async (url, init) => {
+        posted.push({ url, init });
+        return new Response(null, { status: 204 });
+      },
+    });
+    const result = await (await POST(new Request('http://tracker.test/api/webhooks', { method: 'POST' }))).json();
+    const { deliveries } = await (await GET(new Request('http://tracker.test/api/webhooks'))).json();
+    return { result, deliveries, posted };
+  };
+
+  it('signs each delivery with the endpoint secret', async () => {
+    const { result, posted } = await run('signed.json', { url: 'https://hooks.example.com/signed', secret: 'shh' });
+    assert.equal(result.delivered, 1);
+    const headers = posted[0].init.headers as Record<string, string>;
+    const [, t, v1] = headers['X-Tracker-Signature'].match(/^t=(\d+),v1=([0-9a-f]+)$/);
+    assert.equal(v1, createHmac('sha256', 'shh').update(`${t}.${posted[0].init.body}`).digest('hex'));
+  });
+
+  it("doesn't send a delivery when there's no secret to sign it with", async () => {
+    const { result, deliveries, posted } = await run('unsigned.json', { url: 'https://hooks.example.com/unsigned' });
+    assert.equal(posted.length, 0);
+    assert.equal(result.failed, 1);
+    assert.equal(deliveries[0].status, 'failed');
+    assert.equal(deliveries[0].lastResult, 'no signing secret');
+  });
+});
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { DEFAULT_WORKSPACES } from '../lib/config';
+import { createWorkspaceHandlers, requestWorkspace } from '../lib/workspaceApi';
+
+const json = (method: string, body: unknown) =>
+  new Request('http://tracker.test/api/workspaces', { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+describe('requestWorkspace', () => {
+  let dir = '';
+  const previousDir = process.env.TRACKER_DATA_DIR;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tracker-workspaces-'));
+    process.env.TRACKER_DATA_DIR = dir;
+  });
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    if (previousDir === undefined) delete process.env.TRACKER_DATA_DIR;
+    else process.env.TRACKER_DATA_DIR = previousDir;
+  });
+
+  const suffixOf = async (query: string) => {
+    const picked = await requestWorkspace(new Request(`http://tracker.test/api/digest${query}`));
+    assert.ok(!(picked instanceof Response));
+    return picked.suffix;
+  };
+
+  it('keeps each workspace on its own store files when the list changes', async () => {
+    const { PUT, DELETE } = createWorkspaceHandlers();
+    assert.equal(await suffixOf(''), '');
+    assert.equal((await PUT(json('PUT', { workspace: { ...DEFAULT_WORKSPACES[0], id: 'ok', name: 'OK' } }))).status, 200);
+    assert.equal(await suffixOf('?workspace=ok'), '-ok');
+
+    // With the default gone, "ok" is first in the list but keeps its own files
+    assert.equal((await DELETE(json('DELETE', { id: 'default' }))).status, 200);
+    assert.equal(await suffixOf(''), '-ok');
+    assert.equal(await suffixOf('?workspace=ok'), '-ok');
+  });
+
+  it('answers 400 for a body or workspace of the wrong shape', async () => {
+    const { PUT } = createWorkspaceHandlers();
+    const error = async (body: unknown) => (await (await PUT(json('PUT', body))).json()).error;
+    assert.equal((await error('ok')).code, 'invalid_workspace');
+    assert.equal((await error({ workspace: { ...DEFAULT_WORKSPACES[0], id: 'ok', targets: null } })).code, 'invalid_workspace');
+    assert.equal((await error({ workspace: { ...DEFAULT_WORKSPACES[0], id: 'ok', sources: [null] } })).message, 'Source 1 needs a sheet link.');
+  });
+
+  it('answers 404 for an unknown workspace', async () => {
+    const picked = await requestWorkspace(new Request('http://tracker.test/api/digest?workspace=nope'));
+    assert.ok(picked instanceof Response);
+    assert.equal(picked.status, 404);
+  });
+});